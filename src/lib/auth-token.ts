@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Token de sessao do WebSocket: JWT HS256 emitido pelo Next.js com o segredo compartilhado
+ * WS_TOKEN_SECRET. Validado localmente, sem consulta ao Redis.
+ *
+ * Claims: sub = oidUser, exp/iat em segundos (epoch), sid = id da sessao, scopes opcionais.
+ */
+export interface AuthTokenClaims {
+  sub: number;
+  exp: number;
+  iat?: number;
+  sid: string;
+  scopes?: string[];
+}
+
+export type AuthTokenResult =
+  | { ok: true; claims: AuthTokenClaims }
+  | { ok: false; reason: 'INVALID_TOKEN' | 'INVALID_SIGNATURE' | 'TOKEN_EXPIRED' };
+
+// Tolerancia de relogio entre Next.js e este servidor
+const CLOCK_SKEW_SECONDS = 30;
+
+function sign(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Formato de JWT (header.payload.assinatura). Tokens legados do Redis sao opacos.
+ */
+export function isSignedToken(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+export function verifyAuthToken(token: string, secret: string, nowMs: number = Date.now()): AuthTokenResult {
+  const parts = token.split('.');
+  if (parts.length !== 3) return { ok: false, reason: 'INVALID_TOKEN' };
+  const [header, payload, signature] = parts;
+
+  let parsedHeader: any;
+  let parsedPayload: any;
+  try {
+    parsedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    parsedPayload = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'INVALID_TOKEN' };
+  }
+  if (parsedHeader?.alg !== 'HS256') return { ok: false, reason: 'INVALID_TOKEN' };
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const received = Buffer.from(signature, 'base64url');
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return { ok: false, reason: 'INVALID_SIGNATURE' };
+  }
+
+  const sub = Number(parsedPayload?.sub);
+  const exp = Number(parsedPayload?.exp);
+  const sid = parsedPayload?.sid;
+  if (!Number.isInteger(sub) || sub <= 0 || !Number.isFinite(exp) || typeof sid !== 'string' || !sid) {
+    return { ok: false, reason: 'INVALID_TOKEN' };
+  }
+  if (exp * 1000 + CLOCK_SKEW_SECONDS * 1000 <= nowMs) {
+    return { ok: false, reason: 'TOKEN_EXPIRED' };
+  }
+
+  const scopes = Array.isArray(parsedPayload.scopes)
+    ? parsedPayload.scopes.filter((scope: unknown): scope is string => typeof scope === 'string')
+    : undefined;
+
+  return {
+    ok: true,
+    claims: { sub, exp, iat: Number(parsedPayload.iat) || undefined, sid, scopes }
+  };
+}
@@ -0,0 +1,63 @@
+// Mensagens exibiveis para os codigos de erro enviados ao cliente ({ reason, message }).
+// O cliente deve decidir pelo `reason` (estavel); `message` e apenas texto de apoio.
+const ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: 'Autentique-se antes de continuar.',
+  INTERNAL_ERROR: 'Erro interno. Tente novamente.',
+  SERVICE_UNAVAILABLE: 'Servidor indisponivel. Tente novamente em instantes.',
+  DATABASE_TIMEOUT: 'O servidor demorou para responder. Tente novamente.',
+  VALIDATION_ERROR: 'Mensagem invalida.',
+
+  INVALID_TOKEN: 'Token invalido. Reautentique-se.',
+  INVALID_SIGNATURE: 'Token invalido. Reautentique-se.',
+  TOKEN_EXPIRED: 'Token expirado. Reautentique-se.',
+  TOKEN_SUBJECT_MISMATCH: 'O token pertence a outro jogador.',
+  LEGACY_TOKEN_DISABLED: 'Token em formato antigo. Reautentique-se.',
+  SESSION_REVOKED: 'Sua sessao foi encerrada. Entre novamente.',
+  BANNED: 'Sua conta esta suspensa.',
+  MUTED: 'Voce esta silenciado e nao pode enviar mensagens ou convites.',
+
+  TARGET_REQUIRED: 'Informe o jogador.',
+  INVALID_TARGET: 'Jogador invalido.',
+  PLAYER_NOT_FOUND: 'Jogador nao encontrado.',
+  IDS_REQUIRED: 'Informe os ids dos eventos.',
+  TARGET_OFFLINE: 'O jogador esta offline.',
+  QUERY_TOO_SHORT: 'Digite pelo menos 2 caracteres.',
+
+  ALREADY_FRIENDS: 'Voces ja sao amigos.',
+  REQUEST_ALREADY_SENT: 'Pedido de amizade ja enviado.',
+  NOT_FRIENDS: 'Voces nao sao amigos.',
+  BLOCKED: 'Nao e possivel interagir com este jogador.',
+  NOT_FOUND: 'Registro nao encontrado.',
+  GROUP_NAME_INVALID: 'Nome de grupo invalido.',
+  GROUP_NAME_TAKEN: 'Ja existe um grupo com esse nome.',
+  GROUP_LIMIT_REACHED: 'Limite de grupos atingido.',
+  GROUP_NOT_FOUND: 'Grupo nao encontrado.',
+
+  EMPTY_MESSAGE: 'A mensagem esta vazia.',
+  MESSAGE_TOO_LONG: 'A mensagem e longa demais.',
+  RATE_LIMITED: 'Muitas acoes em pouco tempo. Aguarde e tente novamente.',
+
+  NO_PARTY: 'Voce nao esta em uma party.',
+  NOT_LEADER: 'Apenas o lider pode fazer isso.',
+  NOT_MEMBER: 'O jogador nao faz parte da party.',
+  PARTY_NOT_FOUND: 'Party nao encontrada.',
+  PARTY_FULL: 'A party esta cheia.',
+  ALREADY_IN_PARTY: 'O jogador ja esta em uma party.',
+  INVALID_MODE: 'Modo de party invalido.',
+  INVALID_SIZE: 'Tamanho de party invalido.',
+  TRANSFER_FAILED: 'Nao foi possivel transferir a lideranca.',
+
+  INVITE_NOT_FOUND: 'Convite nao encontrado ou expirado.',
+  INVITE_ALREADY_SENT: 'Convite ja enviado.',
+  INVITE_ALREADY_RESPONDED: 'Convite ja respondido.',
+
+  ALREADY_IN_QUARTET: 'O jogador ja esta em um quarteto.',
+  INVALID_POSITION: 'Posicao invalida.',
+  POSITION_ALREADY_TAKEN: 'Posicao ja ocupada.'
+};
+
+const DEFAULT_ERROR_MESSAGE = 'Nao foi possivel concluir a operacao.';
+
+export function describeError(reason: string): string {
+  return ERROR_MESSAGES[reason] ?? DEFAULT_ERROR_MESSAGE;
+}
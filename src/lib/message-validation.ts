@@ -0,0 +1,255 @@
+import type {
+  InboundMessage,
+  InboundMessageType,
+  ValidationErrorPayload
+} from '../types/protocol';
+import {
+  SETTABLE_PRESENCE_STATUSES,
+  PARTY_MODE_SIZES,
+  USER_SEARCH_MAX_LENGTH,
+  FRIEND_GROUP_NAME_MAX_LENGTH,
+  FRIEND_NOTIFICATION_KINDS
+} from '../types/protocol';
+
+/**
+ * Tipos de campo aceitos nos payloads de entrada
+ * - id: inteiro positivo (aceita string numerica, comum em clientes antigos)
+ * - integer: inteiro (aceita string numerica)
+ * - key: string ou numero, normalizado para string (partyId, transactionId...)
+ * - string[]: com oneOf, cada item deve estar na lista
+ */
+type FieldKind = 'id' | 'integer' | 'string' | 'key' | 'boolean' | 'string[]';
+
+interface FieldRule {
+  kind: FieldKind;
+  required?: boolean;
+  oneOf?: readonly (string | number)[];
+  maxLength?: number;
+}
+
+type PayloadSchema = Record<string, FieldRule>;
+
+const MAX_STRING_LENGTH = 4096;
+const MAX_ARRAY_LENGTH = 500;
+
+const requestIdRule: FieldRule = { kind: 'key', maxLength: 128 };
+
+const requiredId: FieldRule = { kind: 'id', required: true };
+const optionalId: FieldRule = { kind: 'id' };
+const optionalNickname: FieldRule = { kind: 'string', maxLength: 64 };
+
+const targetRef: PayloadSchema = { targetOidUser: optionalId, targetLogin: optionalNickname };
+const targetNickname: PayloadSchema = {
+  targetLogin: optionalNickname,
+  targetNickname: optionalNickname,
+  nickname: optionalNickname,
+  nick: optionalNickname
+};
+
+/**
+ * Schema de cada mensagem de entrada. Campos fora do schema sao descartados.
+ */
+const INBOUND_SCHEMAS: Record<InboundMessageType, PayloadSchema> = {
+  AUTH: {
+    oidUser: requiredId,
+    token: { kind: 'string', required: true },
+    username: { kind: 'string', maxLength: 64 },
+    tabId: { kind: 'string', maxLength: 128 },
+    multiSession: { kind: 'boolean' }
+  },
+  TOKEN_REFRESH: { token: { kind: 'string', required: true } },
+  INBOX_ACK: { ids: { kind: 'string[]', required: true } },
+  HEARTBEAT: {},
+
+  PRESENCE_SET: { status: { kind: 'string', required: true, oneOf: SETTABLE_PRESENCE_STATUSES } },
+
+  USER_SEARCH: {
+    query: { kind: 'string', required: true, maxLength: USER_SEARCH_MAX_LENGTH },
+    limit: { kind: 'integer' }
+  },
+
+  FRIEND_SEND: targetNickname,
+  FRIEND_ACCEPT: { requesterOidUser: requiredId },
+  FRIEND_REJECT: { requesterOidUser: requiredId },
+  FRIEND_CANCEL: targetRef,
+  FRIEND_REMOVE: targetRef,
+  FRIEND_LIST: {},
+  FRIEND_PENDING: {},
+  FRIEND_SUGGESTIONS: { offset: { kind: 'integer' }, limit: { kind: 'integer' } },
+  FRIEND_MUTUALS: targetRef,
+  FRIEND_GROUP_CREATE: { name: { kind: 'string', required: true, maxLength: FRIEND_GROUP_NAME_MAX_LENGTH } },
+  FRIEND_GROUP_RENAME: {
+    groupId: requiredId,
+    name: { kind: 'string', required: true, maxLength: FRIEND_GROUP_NAME_MAX_LENGTH }
+  },
+  FRIEND_GROUP_DELETE: { groupId: requiredId },
+  FRIEND_SET_GROUP: { ...targetRef, groupId: optionalId },
+  FRIEND_SET_FAVORITE: { ...targetRef, favorite: { kind: 'boolean', required: true } },
+  FRIEND_SET_MUTED: { ...targetRef, muted: { kind: 'string[]', required: true, oneOf: FRIEND_NOTIFICATION_KINDS } },
+  FRIEND_BLOCK: targetRef,
+  FRIEND_UNBLOCK: targetRef,
+  FRIEND_BLOCK_LIST: {},
+
+  DM_SEND: {
+    targetOidUser: requiredId,
+    text: { kind: 'string', required: true },
+    clientMessageId: { kind: 'key', maxLength: 128 }
+  },
+  DM_HISTORY: { targetOidUser: requiredId, beforeId: optionalId, limit: { kind: 'integer' } },
+  DM_READ: { targetOidUser: requiredId, upToId: optionalId },
+  DM_TYPING: { targetOidUser: requiredId, typing: { kind: 'boolean' } },
+
+  QUARTET_INVITE_SEND: { ...targetNickname, targetPos: { kind: 'integer', required: true, oneOf: [1, 2, 3] } },
+  QUARTET_INVITE_ACCEPT: { requesterOidUser: requiredId },
+  QUARTET_INVITE_REJECT: { requesterOidUser: requiredId },
+  QUARTET_INVITE_REMOVE: targetRef,
+  QUARTET_LIST_ACCEPTED: {},
+  QUARTET_LIST_PENDING: {},
+
+  PARTY_CREATE: {
+    mode: { kind: 'string', oneOf: Object.keys(PARTY_MODE_SIZES) },
+    maxSize: { kind: 'integer' }
+  },
+  PARTY_INVITE: { targetOidUser: requiredId },
+  PARTY_ACCEPT_INVITE: { partyId: { kind: 'key', required: true, maxLength: 64 } },
+  PARTY_DECLINE_INVITE: { inviterOidUser: requiredId },
+  PARTY_INVITE_LIST: {},
+  PARTY_LEAVE: {},
+  PARTY_KICK: { targetOidUser: requiredId },
+  PARTY_TRANSFER_LEAD: { targetOidUser: requiredId },
+  PARTY_CHAT_SEND: { text: { kind: 'string', required: true } },
+
+  TOURNAMENT_INVITE_SEND: {
+    tournamentId: requiredId,
+    targetNickname: { kind: 'string', required: true, maxLength: 64 },
+    position: requiredId
+  },
+  TOURNAMENT_INVITE_ACCEPT: { inviteId: requiredId },
+  TOURNAMENT_INVITE_REJECT: { inviteId: requiredId },
+  TOURNAMENT_INVITE_REMOVE: { inviteId: requiredId },
+  TOURNAMENT_INVITE_LIST: {},
+
+  PAYMENT_WATCH: { transactionId: { kind: 'key', required: true, maxLength: 128 } }
+};
+
+export type ParseResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: false; error: ValidationErrorPayload };
+
+export function isInboundMessageType(type: unknown): type is InboundMessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(INBOUND_SCHEMAS, type);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Converte e valida uma mensagem recebida do cliente.
+ * Aceita o payload em `payload` ou `data` (clientes antigos) e um `requestId` opcional.
+ */
+export function parseInboundMessage(raw: string): ParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { reason: 'INVALID_JSON', message: 'Mensagem nao e um JSON valido' } };
+  }
+
+  if (!isPlainObject(parsed)) {
+    return { ok: false, error: { reason: 'INVALID_PAYLOAD', message: 'Mensagem deve ser um objeto { type, payload }' } };
+  }
+
+  let requestId: string | undefined;
+  if (parsed.requestId !== undefined && parsed.requestId !== null) {
+    requestId = coerceField(parsed.requestId, requestIdRule) as string | undefined;
+    if (requestId === undefined) {
+      return { ok: false, error: { reason: 'INVALID_PAYLOAD', field: 'requestId', message: 'Campo invalido: requestId' } };
+    }
+  }
+
+  const type = parsed.type;
+  if (!isInboundMessageType(type)) {
+    return {
+      ok: false,
+      error: {
+        type: typeof type === 'string' ? type : undefined,
+        requestId,
+        reason: 'UNKNOWN_TYPE',
+        message: 'Tipo de mensagem invalido'
+      }
+    };
+  }
+
+  const rawPayload = parsed.payload ?? parsed.data ?? {};
+  if (!isPlainObject(rawPayload)) {
+    return { ok: false, error: { type, requestId, reason: 'INVALID_PAYLOAD', message: 'payload deve ser um objeto' } };
+  }
+
+  const payload: Record<string, unknown> = {};
+  for (const [field, rule] of Object.entries(INBOUND_SCHEMAS[type])) {
+    const value = rawPayload[field];
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) {
+        return {
+          ok: false,
+          error: { type, requestId, reason: 'INVALID_PAYLOAD', field, message: `Campo obrigatorio: ${field}` }
+        };
+      }
+      continue;
+    }
+
+    const coerced = coerceField(value, rule);
+    if (coerced === undefined) {
+      return {
+        ok: false,
+        error: { type, requestId, reason: 'INVALID_PAYLOAD', field, message: `Campo invalido: ${field}` }
+      };
+    }
+    payload[field] = coerced;
+  }
+
+  return { ok: true, message: { type, payload, requestId } as InboundMessage };
+}
+
+/**
+ * Retorna o valor normalizado ou undefined se for invalido para a regra
+ */
+function coerceField(value: unknown, rule: FieldRule): unknown {
+  let result: unknown;
+
+  switch (rule.kind) {
+    case 'id':
+    case 'integer': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || !Number.isInteger(num)) return undefined;
+      if (rule.kind === 'id' && num <= 0) return undefined;
+      result = num;
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') return undefined;
+      if (value.length > (rule.maxLength ?? MAX_STRING_LENGTH)) return undefined;
+      result = value;
+      break;
+    case 'key': {
+      if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+      const key = String(value).trim();
+      if (!key || key.length > (rule.maxLength ?? MAX_STRING_LENGTH)) return undefined;
+      result = key;
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') return undefined;
+      result = value;
+      break;
+    case 'string[]':
+      if (!Array.isArray(value) || value.length > MAX_ARRAY_LENGTH) return undefined;
+      if (!value.every((item) => typeof item === 'string')) return undefined;
+      if (rule.oneOf && !value.every((item) => rule.oneOf!.includes(item))) return undefined;
+      return value;
+  }
+
+  if (rule.oneOf && !rule.oneOf.includes(result as string | number)) return undefined;
+  return result;
+}
@@ -0,0 +1,12 @@
+/**
+ * Wrapper para adicionar timeout em queries do Prisma
+ * Previne que queries penduradas causem loading infinito
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number = 5000): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('DATABASE_TIMEOUT')), timeoutMs)
+    )
+  ]);
+}
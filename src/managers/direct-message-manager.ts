@@ -0,0 +1,201 @@
+import { prismaRanked } from '../database/prisma'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import { toBrasiliaForDb } from '../lib/time'
+import { FriendManager } from './friend-manager'
+
+export interface DirectMessageView {
+  id: number
+  senderId: number
+  recipientId: number
+  text: string
+  createdAt: Date
+  readAt: Date | null
+}
+
+export interface UnreadCount {
+  oidUser: number
+  count: number
+}
+
+const DM_MAX_LENGTH = 500
+const DM_HISTORY_DEFAULT_LIMIT = 30
+const DM_HISTORY_MAX_LIMIT = 100
+
+// Rate limit por usuario: DM_RATE_MAX mensagens a cada DM_RATE_WINDOW_SECONDS
+const DM_RATE_MAX = Number(process.env.DM_RATE_MAX) || 10
+const DM_RATE_WINDOW_SECONDS = Number(process.env.DM_RATE_WINDOW_SECONDS) || 10
+
+// Indicador de digitacao repassado no maximo uma vez a cada N segundos por par
+const DM_TYPING_THROTTLE_SECONDS = 3
+
+type DirectMessageRow = {
+  id: number
+  senderId: number
+  recipientId: number
+  body: string
+  createdAt: Date
+  readAt: Date | null
+}
+
+function toView(row: DirectMessageRow): DirectMessageView {
+  return {
+    id: Number(row.id),
+    senderId: Number(row.senderId),
+    recipientId: Number(row.recipientId),
+    text: row.body,
+    createdAt: row.createdAt,
+    readAt: row.readAt
+  }
+}
+
+/**
+ * DirectMessageManager - Mensagens diretas entre amigos (BST_DirectMessages)
+ */
+export class DirectMessageManager {
+  private redis = getRedisClient()
+  private friendManager = new FriendManager()
+
+  private rateKey(oidUser: number) { return `dm:rate:${oidUser}` }
+  private typingKey(from: number, to: number) { return `dm:typing:${from}:${to}` }
+
+  /**
+   * Envia uma mensagem. Apenas entre amizades aceitas.
+   */
+  async send(
+    senderId: number,
+    recipientId: number,
+    rawText: string
+  ): Promise<{ ok: boolean; reason?: string; message?: DirectMessageView }> {
+    if (!senderId || !recipientId || senderId === recipientId) {
+      return { ok: false, reason: 'INVALID_TARGET' }
+    }
+
+    const text = typeof rawText === 'string' ? rawText.trim() : ''
+    if (!text) return { ok: false, reason: 'EMPTY_MESSAGE' }
+    if (text.length > DM_MAX_LENGTH) return { ok: false, reason: 'MESSAGE_TOO_LONG' }
+
+    try {
+      if (!(await this.consumeRate(senderId))) {
+        return { ok: false, reason: 'RATE_LIMITED' }
+      }
+
+      // Bloquear desfaz a amizade; o motivo especifico so e consultado quando nao sao amigos
+      if (!(await this.friendManager.areFriends(senderId, recipientId))) {
+        const blocked = await this.friendManager.isBlocked(senderId, recipientId)
+        return { ok: false, reason: blocked ? 'BLOCKED' : 'NOT_FRIENDS' }
+      }
+
+      const nowForDb = toBrasiliaForDb(new Date())
+      const rows = await prismaRanked.$queryRaw<DirectMessageRow[]>`
+        INSERT INTO BST_DirectMessages (senderId, recipientId, body, createdAt)
+        OUTPUT INSERTED.id, INSERTED.senderId, INSERTED.recipientId, INSERTED.body, INSERTED.createdAt, INSERTED.readAt
+        VALUES (${senderId}, ${recipientId}, ${text}, ${nowForDb})
+      `
+      if (rows.length === 0) return { ok: false, reason: 'INTERNAL_ERROR' }
+      return { ok: true, message: toView(rows[0]) }
+    } catch (err) {
+      log('error', 'Erro ao enviar mensagem direta', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Historico da conversa entre dois usuarios, paginado por id (mais recentes primeiro na busca,
+   * devolvidos em ordem cronologica)
+   */
+  async history(
+    oidUser: number,
+    otherUser: number,
+    options: { beforeId?: number; limit?: number } = {}
+  ): Promise<{ messages: DirectMessageView[]; hasMore: boolean }> {
+    const limit = Math.min(Math.max(Number(options.limit) || DM_HISTORY_DEFAULT_LIMIT, 1), DM_HISTORY_MAX_LIMIT)
+    const beforeId = Number(options.beforeId) > 0 ? Number(options.beforeId) : null
+
+    try {
+      const rows = await prismaRanked.$queryRaw<DirectMessageRow[]>`
+        SELECT TOP (${limit + 1}) id, senderId, recipientId, body, createdAt, readAt
+        FROM BST_DirectMessages
+        WHERE (
+          (senderId = ${oidUser} AND recipientId = ${otherUser}) OR
+          (senderId = ${otherUser} AND recipientId = ${oidUser})
+        )
+          AND (${beforeId} IS NULL OR id < ${beforeId})
+        ORDER BY id DESC
+      `
+      const hasMore = rows.length > limit
+      const messages = rows.slice(0, limit).map(toView).reverse()
+      return { messages, hasMore }
+    } catch (err) {
+      log('error', 'Erro ao buscar historico de mensagens', err)
+      throw err // Re-throw para o handler enviar erro ao cliente
+    }
+  }
+
+  /**
+   * Marca como lidas as mensagens recebidas de `otherUser` (ate `upToId`, se informado)
+   */
+  async markRead(readerId: number, otherUser: number, upToId?: number): Promise<number> {
+    const limitId = Number(upToId) > 0 ? Number(upToId) : null
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      return await prismaRanked.$executeRaw`
+        UPDATE BST_DirectMessages
+        SET readAt = ${nowForDb}
+        WHERE recipientId = ${readerId}
+          AND senderId = ${otherUser}
+          AND readAt IS NULL
+          AND (${limitId} IS NULL OR id <= ${limitId})
+      `
+    } catch (err) {
+      log('error', 'Erro ao marcar mensagens como lidas', err)
+      return 0
+    }
+  }
+
+  /**
+   * Quantidade de mensagens nao lidas, agrupadas por remetente
+   */
+  async unreadCounts(oidUser: number): Promise<UnreadCount[]> {
+    try {
+      const rows = await prismaRanked.$queryRaw<{ senderId: number; total: number }[]>`
+        SELECT senderId, COUNT(*) AS total
+        FROM BST_DirectMessages
+        WHERE recipientId = ${oidUser} AND readAt IS NULL
+        GROUP BY senderId
+      `
+      return rows.map(r => ({ oidUser: Number(r.senderId), count: Number(r.total) }))
+    } catch (err) {
+      log('warn', `Erro ao contar mensagens nao lidas de ${oidUser}`, err)
+      return []
+    }
+  }
+
+  /**
+   * Indica se o evento de digitacao deve ser repassado: exige amizade em todos os eventos;
+   * apenas o inicio da digitacao passa pelo throttle por par
+   */
+  async shouldForwardTyping(senderId: number, recipientId: number, typing: boolean): Promise<boolean> {
+    try {
+      if (!(await this.friendManager.areFriends(senderId, recipientId))) return false
+      if (!typing) return true
+      const fresh = await this.redis.set(this.typingKey(senderId, recipientId), '1', {
+        NX: true,
+        EX: DM_TYPING_THROTTLE_SECONDS
+      })
+      return fresh === 'OK'
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Consome uma unidade do limite de envio. Retorna false se o limite foi excedido.
+   */
+  private async consumeRate(oidUser: number): Promise<boolean> {
+    // INCR e EXPIRE na mesma transacao: a chave nunca fica sem TTL (o que bloquearia o jogador para sempre)
+    const key = this.rateKey(oidUser)
+    const [count] = await this.redis.multi().incr(key).expire(key, DM_RATE_WINDOW_SECONDS, 'NX').exec()
+    return Number(count) <= DM_RATE_MAX
+  }
+}
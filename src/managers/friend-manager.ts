@@ -1,6 +1,8 @@
 import { prismaRanked, prismaGame, PrismaGame } from '../database/prisma'
 import { log } from '../utils/logger'
 import { toBrasiliaForDb } from '../lib/time'
+import { PresenceManager, PresenceStatus } from './presence-manager'
+import { FriendPreferenceManager, FriendNotificationKind, FriendPreferences } from './friend-preference-manager'
 
 type FriendStatus = 'PENDING' | 'ACCEPTED' | 'REMOVED' | 'BLOCKED'
 
@@ -30,9 +32,62 @@ export interface FriendView {
   username: string | null
   status: FriendStatus
   isRequester: boolean
+  // Presenca (apenas para amizades aceitas)
+  online?: boolean
+  lastSeen?: number | null
+  presence?: PresenceStatus
+  // Data do pedido (apenas pedidos pendentes)
+  createdAt?: Date
+  // Total de amigos do outro jogador e quantos deles tambem sao amigos de quem consulta
+  friendCount?: number
+  mutualCount?: number
+  // Preferencias de quem consulta (apenas amizades aceitas)
+  favorite?: boolean
+  groupId?: number | null
+  muted?: FriendNotificationKind[]
+}
+
+export interface MutualFriendView {
+  oidUser: number
+  username: string | null
+  online: boolean
+  presence: PresenceStatus
+}
+
+interface FriendCounts {
+  friendCount: number
+  mutualCount: number
+}
+
+type FriendCountRow = { oidUser: number } & FriendCounts
+
+export interface PendingFriendRequests {
+  incoming: FriendView[]
+  outgoing: FriendView[]
+}
+
+export interface FriendRequestRef {
+  requesterId: number
+  targetId: number
+}
+
+// Limpeza periodica (ver expirePendingRequests / purgeRemoved)
+const FRIEND_CLEANUP_BATCH_SIZE = 500
+
+function daysAgoForDb(days: number): string {
+  return toBrasiliaForDb(new Date(Date.now() - days * 24 * 3600 * 1000))
+}
+
+export interface BlockedUserView {
+  oidUser: number
+  username: string | null
+  blockedAt: Date
 }
 
 export class FriendManager {
+  private presenceManager = new PresenceManager()
+  private preferenceManager = new FriendPreferenceManager()
+
   /**
    * Envia (ou reaproveita) um pedido de amizade.
    */
@@ -42,6 +97,10 @@ export class FriendManager {
     }
 
     try {
+      if (await this.isBlocked(requesterId, targetId)) {
+        return { ok: false, reason: 'BLOCKED' }
+      }
+
       const nowForDb = toBrasiliaForDb(new Date())
       // Verifica se já existe algum vínculo entre os dois (em qualquer direção)
       const existing = await prismaRanked.$queryRaw<FriendRecord[]>`
@@ -72,10 +131,10 @@ export class FriendManager {
         }
       }
 
-      // Remove registros antigos marcados como removidos/bloqueados para evitar PK duplicada ao recriar
+      // Remove registros antigos marcados como removidos para evitar PK duplicada ao recriar
       await prismaRanked.$executeRaw`
         DELETE FROM BST_Friends
-        WHERE status IN ('REMOVED','BLOCKED') AND (
+        WHERE status = 'REMOVED' AND (
           (requesterId = ${requesterId} AND targetId = ${targetId})
           OR
           (requesterId = ${targetId} AND targetId = ${requesterId})
@@ -126,6 +185,25 @@ export class FriendManager {
     }
   }
 
+  /**
+   * Retira um pedido enviado (apenas o autor do pedido)
+   */
+  async cancel(requesterId: number, targetId: number): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      const updated = await prismaRanked.$executeRaw`
+        UPDATE BST_Friends
+        SET status = 'REMOVED', updatedAt = ${nowForDb}
+        WHERE requesterId = ${requesterId} AND targetId = ${targetId} AND status = 'PENDING'
+      `
+      if (!updated) return { ok: false, reason: 'NOT_FOUND' }
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao cancelar pedido de amizade', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
   async remove(userA: number, userB: number): Promise<{ ok: boolean; reason?: string }> {
     try {
       const nowForDb = toBrasiliaForDb(new Date())
@@ -138,6 +216,7 @@ export class FriendManager {
         )
       `
       if (!updated) return { ok: false, reason: 'NOT_FOUND' }
+      await this.preferenceManager.clearBetween(userA, userB)
       return { ok: true }
     } catch (err) {
       log('error', 'Erro ao remover amizade', err)
@@ -145,6 +224,114 @@ export class FriendManager {
     }
   }
 
+  /**
+   * Bloqueia um jogador: desfaz amizade/pedidos entre os dois e grava BLOCKED
+   * (requesterId = quem bloqueou). O bloqueio do outro lado, se houver, e mantido.
+   * Retorna se havia amizade aceita, para avisar o bloqueado com FRIEND_REMOVED.
+   */
+  async block(blockerId: number, blockedId: number): Promise<{ ok: boolean; reason?: string; wasFriend?: boolean }> {
+    if (!blockerId || !blockedId || blockerId === blockedId) {
+      return { ok: false, reason: 'INVALID_TARGET' }
+    }
+
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      const wasFriend = await this.areFriends(blockerId, blockedId)
+      await prismaRanked.$transaction([
+        prismaRanked.$executeRaw`
+          DELETE FROM BST_Friends
+          WHERE status <> 'BLOCKED' AND (
+            (requesterId = ${blockerId} AND targetId = ${blockedId}) OR
+            (requesterId = ${blockedId} AND targetId = ${blockerId})
+          )
+        `,
+        prismaRanked.$executeRaw`
+          INSERT INTO BST_Friends (requesterId, targetId, status, createdAt, updatedAt)
+          SELECT ${blockerId}, ${blockedId}, 'BLOCKED', ${nowForDb}, ${nowForDb}
+          WHERE NOT EXISTS (
+            SELECT 1 FROM BST_Friends
+            WHERE requesterId = ${blockerId} AND targetId = ${blockedId} AND status = 'BLOCKED'
+          )
+        `
+      ])
+      if (wasFriend) await this.preferenceManager.clearBetween(blockerId, blockedId)
+      return { ok: true, wasFriend }
+    } catch (err) {
+      log('error', 'Erro ao bloquear jogador', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  async unblock(blockerId: number, blockedId: number): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const deleted = await prismaRanked.$executeRaw`
+        DELETE FROM BST_Friends
+        WHERE requesterId = ${blockerId} AND targetId = ${blockedId} AND status = 'BLOCKED'
+      `
+      if (!deleted) return { ok: false, reason: 'NOT_FOUND' }
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao desbloquear jogador', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Verifica se algum dos dois bloqueou o outro. Em erro considera bloqueado.
+   */
+  async isBlocked(userA: number, userB: number): Promise<boolean> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ ok: number }[]>`
+          SELECT TOP 1 1 AS ok
+          FROM BST_Friends
+          WHERE status = 'BLOCKED' AND (
+            (requesterId = ${userA} AND targetId = ${userB}) OR
+            (requesterId = ${userB} AND targetId = ${userA})
+          )
+        `
+      )
+      return rows.length > 0
+    } catch (err) {
+      log('error', 'Erro ao verificar bloqueio', err)
+      return true
+    }
+  }
+
+  /**
+   * Jogadores bloqueados por oidUser
+   */
+  async listBlocked(oidUser: number): Promise<BlockedUserView[]> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ targetId: number; createdAt: Date }[]>`
+          SELECT targetId, createdAt
+          FROM BST_Friends
+          WHERE status = 'BLOCKED' AND requesterId = ${oidUser}
+          ORDER BY createdAt DESC
+        `
+      )
+      const ids = rows.map(r => r.targetId)
+      const users =
+        ids.length > 0
+          ? await withTimeout(
+              prismaGame.$queryRaw<{ oiduser: number; NickName: string | null }[]>`
+                SELECT oiduser, NickName FROM CBT_User WHERE oiduser IN (${PrismaGame.join(ids)})
+              `
+            )
+          : []
+      const nameById = new Map<number, string | null>(users.map(u => [u.oiduser, u.NickName]))
+      return rows.map(r => ({
+        oidUser: r.targetId,
+        username: nameById.get(r.targetId) ?? null,
+        blockedAt: r.createdAt
+      }))
+    } catch (err) {
+      log('error', 'Erro ao listar bloqueados', err)
+      throw err // Re-throw para o handler enviar erro ao cliente
+    }
+  }
+
   async listFriends(oidUser: number): Promise<FriendView[]> {
     try {
       const rows = await withTimeout(
@@ -164,28 +351,234 @@ export class FriendManager {
             )
           : []
       const nameById = new Map<number, string | null>(users.map(u => [u.oiduser, u.NickName]))
-      return rows.map(r => {
+      const [presenceById, countsById, preferencesById] = await Promise.all([
+        this.presenceManager.getPresenceMany(ids),
+        this.loadFriendCounts(oidUser, 'ACCEPTED'),
+        // Sem preferencias a lista ainda e util: todos aparecem sem grupo/favorito
+        this.preferenceManager.getPreferences(oidUser).catch(err => {
+          log('warn', `Falha ao carregar preferencias de amigos de ${oidUser}`, err)
+          return new Map<number, FriendPreferences>()
+        })
+      ])
+      const friends: FriendView[] = rows.map(r => {
         const friendId = r.requesterId === oidUser ? r.targetId : r.requesterId
+        const presence = presenceById.get(friendId)
+        const preferences = preferencesById.get(friendId)
         return {
           oidUser: friendId,
           username: nameById.get(friendId) ?? null,
           status: r.status,
-          isRequester: r.requesterId === oidUser
+          isRequester: r.requesterId === oidUser,
+          online: presence?.online ?? false,
+          lastSeen: presence?.lastSeen ?? null,
+          presence: presence?.status ?? 'OFFLINE',
+          ...countsById.get(friendId),
+          favorite: preferences?.favorite ?? false,
+          groupId: preferences?.groupId ?? null,
+          muted: preferences?.muted ?? []
         }
       })
+      // Favoritos primeiro, depois por nome
+      return friends.sort(
+        (a, b) =>
+          Number(b.favorite) - Number(a.favorite) ||
+          (a.username ?? '').localeCompare(b.username ?? '', undefined, { sensitivity: 'base' })
+      )
     } catch (err) {
       log('error', 'Erro ao listar amigos', err)
       throw err // Re-throw para o handler enviar erro ao cliente
     }
   }
 
-  async listPending(oidUser: number): Promise<FriendView[]> {
+  /**
+   * Amigos aceitos em comum entre userA e userB
+   */
+  async listMutualFriends(userA: number, userB: number): Promise<MutualFriendView[]> {
     try {
       const rows = await withTimeout(
-        prismaRanked.$queryRaw<{ requesterId: number; targetId: number; status: FriendStatus }[]>`
-          SELECT requesterId, targetId, status
+        prismaRanked.$queryRaw<{ oidUser: number }[]>`
+          WITH friendsA AS (
+            SELECT DISTINCT CASE WHEN requesterId = ${userA} THEN targetId ELSE requesterId END AS friendId
+            FROM BST_Friends
+            WHERE status = 'ACCEPTED' AND (requesterId = ${userA} OR targetId = ${userA})
+          ),
+          friendsB AS (
+            SELECT DISTINCT CASE WHEN requesterId = ${userB} THEN targetId ELSE requesterId END AS friendId
+            FROM BST_Friends
+            WHERE status = 'ACCEPTED' AND (requesterId = ${userB} OR targetId = ${userB})
+          )
+          SELECT DISTINCT a.friendId AS oidUser
+          FROM friendsA a
+          INNER JOIN friendsB b ON b.friendId = a.friendId
+        `
+      )
+      const ids = rows.map(r => Number(r.oidUser))
+      if (ids.length === 0) return []
+
+      const users = await withTimeout(
+        prismaGame.$queryRaw<{ oiduser: number; NickName: string | null }[]>`
+          SELECT oiduser, NickName FROM CBT_User WHERE oiduser IN (${PrismaGame.join(ids)})
+        `
+      )
+      const nameById = new Map<number, string | null>(users.map(u => [u.oiduser, u.NickName]))
+      const presenceById = await this.presenceManager.getPresenceMany(ids)
+      return ids.map(id => {
+        const presence = presenceById.get(id)
+        return {
+          oidUser: id,
+          username: nameById.get(id) ?? null,
+          online: presence?.online ?? false,
+          presence: presence?.status ?? 'OFFLINE'
+        }
+      })
+    } catch (err) {
+      log('error', 'Erro ao listar amigos em comum', err)
+      throw err // Re-throw para o handler enviar erro ao cliente
+    }
+  }
+
+  /**
+   * Para cada jogador com vinculo `status` com oidUser: total de amigos e quantos sao em comum,
+   * em uma unica consulta. Os contadores sao complementares: em falha a listagem segue sem eles.
+   * Contagens por amigo distinto: um par com linhas A->B e B->A aceitas conta uma vez.
+   */
+  private async loadFriendCounts(oidUser: number, status: 'ACCEPTED' | 'PENDING'): Promise<Map<number, FriendCounts>> {
+    const counts = new Map<number, FriendCounts>()
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<FriendCountRow[]>`
+          WITH others AS (
+            SELECT DISTINCT CASE WHEN requesterId = ${oidUser} THEN targetId ELSE requesterId END AS userId
+            FROM BST_Friends
+            WHERE status = ${status} AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+          ),
+          myFriends AS (
+            SELECT DISTINCT CASE WHEN requesterId = ${oidUser} THEN targetId ELSE requesterId END AS friendId
+            FROM BST_Friends
+            WHERE status = 'ACCEPTED' AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+          ),
+          edges AS (
+            SELECT o.userId, CASE WHEN f.requesterId = o.userId THEN f.targetId ELSE f.requesterId END AS friendId
+            FROM others o
+            INNER JOIN BST_Friends f ON f.status = 'ACCEPTED' AND (f.requesterId = o.userId OR f.targetId = o.userId)
+          )
+          SELECT o.userId AS oidUser, COUNT(DISTINCT e.friendId) AS friendCount, COUNT(DISTINCT mf.friendId) AS mutualCount
+          FROM others o
+          LEFT JOIN edges e ON e.userId = o.userId
+          LEFT JOIN myFriends mf ON mf.friendId = e.friendId
+          GROUP BY o.userId
+        `
+      )
+      for (const r of rows) {
+        counts.set(Number(r.oidUser), { friendCount: Number(r.friendCount), mutualCount: Number(r.mutualCount) })
+      }
+    } catch (err) {
+      log('warn', `Falha ao contar amigos para ${oidUser}`, err)
+    }
+    return counts
+  }
+
+  /**
+   * Verifica se existe amizade aceita entre os dois (em qualquer direcao)
+   */
+  async areFriends(userA: number, userB: number): Promise<boolean> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ ok: number }[]>`
+          SELECT TOP 1 1 AS ok
+          FROM BST_Friends
+          WHERE status = 'ACCEPTED' AND (
+            (requesterId = ${userA} AND targetId = ${userB}) OR
+            (requesterId = ${userB} AND targetId = ${userA})
+          )
+        `
+      )
+      return rows.length > 0
+    } catch (err) {
+      log('error', 'Erro ao verificar amizade', err)
+      return false
+    }
+  }
+
+  /**
+   * IDs dos amigos aceitos (usado para notificar presenca)
+   */
+  async listFriendIds(oidUser: number): Promise<number[]> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ requesterId: number; targetId: number }[]>`
+          SELECT requesterId, targetId
+          FROM BST_Friends
+          WHERE status = 'ACCEPTED' AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+        `
+      )
+      return Array.from(new Set(rows.map(r => (r.requesterId === oidUser ? r.targetId : r.requesterId))))
+    } catch (err) {
+      log('error', 'Erro ao listar ids de amigos', err)
+      return []
+    }
+  }
+
+  /**
+   * IDs dos jogadores com bloqueio em qualquer direcao (usado para filtrar a busca de jogadores)
+   */
+  async listBlockedIds(oidUser: number): Promise<number[]> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ requesterId: number; targetId: number }[]>`
+          SELECT requesterId, targetId
+          FROM BST_Friends
+          WHERE status = 'BLOCKED' AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+        `
+      )
+      return Array.from(new Set(rows.map(r => (r.requesterId === oidUser ? r.targetId : r.requesterId))))
+    } catch (err) {
+      log('error', 'Erro ao listar ids bloqueados', err)
+      throw err // Re-throw: sem a lista nao da para esconder os bloqueados
+    }
+  }
+
+  /**
+   * Remove um lote de pedidos PENDING criados ha mais de `maxAgeDays` dias.
+   * Retorna os pedidos removidos para que os envolvidos sejam avisados.
+   */
+  async expirePendingRequests(maxAgeDays: number): Promise<FriendRequestRef[]> {
+    const rows = await withTimeout(
+      prismaRanked.$queryRaw<FriendRequestRef[]>`
+        DELETE TOP (${FRIEND_CLEANUP_BATCH_SIZE}) FROM BST_Friends
+        OUTPUT DELETED.requesterId, DELETED.targetId
+        WHERE status = 'PENDING' AND createdAt < ${daysAgoForDb(maxAgeDays)}
+      `,
+      30000
+    )
+    return rows.map(r => ({ requesterId: Number(r.requesterId), targetId: Number(r.targetId) }))
+  }
+
+  /**
+   * Apaga um lote de registros REMOVED/REJECTED sem alteracao ha mais de `retentionDays` dias.
+   * Retorna quantos foram apagados.
+   */
+  async purgeRemoved(retentionDays: number): Promise<number> {
+    return withTimeout(
+      prismaRanked.$executeRaw`
+        DELETE TOP (${FRIEND_CLEANUP_BATCH_SIZE}) FROM BST_Friends
+        WHERE status IN ('REMOVED', 'REJECTED') AND updatedAt < ${daysAgoForDb(retentionDays)}
+      `,
+      30000
+    )
+  }
+
+  /**
+   * Pedidos pendentes separados em recebidos (incoming) e enviados (outgoing), mais recentes primeiro
+   */
+  async listPending(oidUser: number): Promise<PendingFriendRequests> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ requesterId: number; targetId: number; status: FriendStatus; createdAt: Date }[]>`
+          SELECT requesterId, targetId, status, createdAt
           FROM BST_Friends
           WHERE status = 'PENDING' AND (targetId = ${oidUser} OR requesterId = ${oidUser})
+          ORDER BY createdAt DESC
         `
       )
       const ids = Array.from(
@@ -200,15 +593,23 @@ export class FriendManager {
             )
           : []
       const nameById = new Map<number, string | null>(users.map(u => [u.oiduser, u.NickName]))
-      return rows.map(r => {
-        const otherUserId = r.requesterId === oidUser ? r.targetId : r.requesterId
-        return {
+      const countsById = await this.loadFriendCounts(oidUser, 'PENDING')
+      const result: PendingFriendRequests = { incoming: [], outgoing: [] }
+      for (const r of rows) {
+        const isRequester = r.requesterId === oidUser
+        const otherUserId = isRequester ? r.targetId : r.requesterId
+        const view: FriendView = {
           oidUser: otherUserId,
           username: nameById.get(otherUserId) ?? null,
           status: r.status,
-          isRequester: r.requesterId === oidUser
+          isRequester,
+          createdAt: r.createdAt,
+          ...countsById.get(otherUserId)
         }
-      })
+        if (isRequester) result.outgoing.push(view)
+        else result.incoming.push(view)
+      }
+      return result
     } catch (err) {
       log('error', 'Erro ao listar pendentes', err)
       throw err // Re-throw para o handler enviar erro ao cliente
@@ -0,0 +1,318 @@
+import { prismaRanked } from '../database/prisma'
+import { log } from '../utils/logger'
+import { toBrasiliaForDb } from '../lib/time'
+import { withTimeout } from '../lib/with-timeout'
+import { FRIEND_GROUP_NAME_MAX_LENGTH, FRIEND_NOTIFICATION_KINDS } from '../types/protocol'
+
+// Notificacoes que podem ser silenciadas por amigo
+export type FriendNotificationKind = (typeof FRIEND_NOTIFICATION_KINDS)[number]
+
+export interface FriendGroupView {
+  id: number
+  name: string
+  createdAt: Date
+}
+
+/**
+ * Preferencias de quem organiza a lista sobre um amigo
+ */
+export interface FriendPreferences {
+  favorite: boolean
+  groupId: number | null
+  muted: FriendNotificationKind[]
+}
+
+const MAX_FRIEND_GROUPS = 20
+
+const EMPTY_PREFERENCES: FriendPreferences = { favorite: false, groupId: null, muted: [] }
+
+/**
+ * FriendPreferenceManager - Grupos, favoritos e notificacoes silenciadas por amigo
+ * (BST_FriendGroups, BST_FriendPreferences e BST_FriendNotificationMutes, ao lado de BST_Friends)
+ */
+export class FriendPreferenceManager {
+  async listGroups(ownerId: number): Promise<FriendGroupView[]> {
+    const rows = await withTimeout(
+      prismaRanked.$queryRaw<FriendGroupView[]>`
+        SELECT id, name, createdAt
+        FROM BST_FriendGroups
+        WHERE ownerId = ${ownerId}
+        ORDER BY name
+      `
+    )
+    return rows.map(r => ({ id: Number(r.id), name: r.name, createdAt: r.createdAt }))
+  }
+
+  async createGroup(ownerId: number, rawName: string): Promise<{ ok: boolean; reason?: string; group?: FriendGroupView }> {
+    const name = rawName.trim()
+    if (!name || name.length > FRIEND_GROUP_NAME_MAX_LENGTH) {
+      return { ok: false, reason: 'GROUP_NAME_INVALID' }
+    }
+
+    try {
+      const existing = await withTimeout(
+        prismaRanked.$queryRaw<{ total: number; taken: number }[]>`
+          SELECT COUNT(*) AS total, SUM(CASE WHEN name = ${name} THEN 1 ELSE 0 END) AS taken
+          FROM BST_FriendGroups
+          WHERE ownerId = ${ownerId}
+        `
+      )
+      if (Number(existing[0]?.taken ?? 0) > 0) return { ok: false, reason: 'GROUP_NAME_TAKEN' }
+      if (Number(existing[0]?.total ?? 0) >= MAX_FRIEND_GROUPS) return { ok: false, reason: 'GROUP_LIMIT_REACHED' }
+
+      const nowForDb = toBrasiliaForDb(new Date())
+      const rows = await prismaRanked.$queryRaw<FriendGroupView[]>`
+        INSERT INTO BST_FriendGroups (ownerId, name, createdAt)
+        OUTPUT INSERTED.id, INSERTED.name, INSERTED.createdAt
+        VALUES (${ownerId}, ${name}, ${nowForDb})
+      `
+      if (rows.length === 0) return { ok: false, reason: 'INTERNAL_ERROR' }
+      return { ok: true, group: { id: Number(rows[0].id), name: rows[0].name, createdAt: rows[0].createdAt } }
+    } catch (err) {
+      log('error', 'Erro ao criar grupo de amigos', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  async renameGroup(ownerId: number, groupId: number, rawName: string): Promise<{ ok: boolean; reason?: string }> {
+    const name = rawName.trim()
+    if (!name || name.length > FRIEND_GROUP_NAME_MAX_LENGTH) {
+      return { ok: false, reason: 'GROUP_NAME_INVALID' }
+    }
+
+    try {
+      const taken = await withTimeout(
+        prismaRanked.$queryRaw<{ ok: number }[]>`
+          SELECT TOP 1 1 AS ok FROM BST_FriendGroups
+          WHERE ownerId = ${ownerId} AND name = ${name} AND id <> ${groupId}
+        `
+      )
+      if (taken.length > 0) return { ok: false, reason: 'GROUP_NAME_TAKEN' }
+
+      const updated = await prismaRanked.$executeRaw`
+        UPDATE BST_FriendGroups SET name = ${name}
+        WHERE id = ${groupId} AND ownerId = ${ownerId}
+      `
+      if (!updated) return { ok: false, reason: 'GROUP_NOT_FOUND' }
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao renomear grupo de amigos', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Remove o grupo; os amigos que estavam nele ficam sem grupo
+   */
+  async deleteGroup(ownerId: number, groupId: number): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      const [, deleted] = await prismaRanked.$transaction([
+        prismaRanked.$executeRaw`
+          UPDATE BST_FriendPreferences SET groupId = NULL, updatedAt = ${nowForDb}
+          WHERE ownerId = ${ownerId} AND groupId = ${groupId}
+        `,
+        prismaRanked.$executeRaw`
+          DELETE FROM BST_FriendGroups WHERE id = ${groupId} AND ownerId = ${ownerId}
+        `
+      ])
+      if (!deleted) return { ok: false, reason: 'GROUP_NOT_FOUND' }
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao remover grupo de amigos', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Preferencias de ownerId para todos os amigos que tem alguma configuracao
+   */
+  async getPreferences(ownerId: number): Promise<Map<number, FriendPreferences>> {
+    const [prefs, mutes] = await Promise.all([
+      withTimeout(
+        prismaRanked.$queryRaw<{ friendId: number; groupId: number | null; isFavorite: boolean }[]>`
+          SELECT friendId, groupId, isFavorite FROM BST_FriendPreferences WHERE ownerId = ${ownerId}
+        `
+      ),
+      withTimeout(
+        prismaRanked.$queryRaw<{ friendId: number; kind: FriendNotificationKind }[]>`
+          SELECT friendId, kind FROM BST_FriendNotificationMutes WHERE ownerId = ${ownerId}
+        `
+      )
+    ])
+
+    const result = new Map<number, FriendPreferences>()
+    const entry = (friendId: number) => {
+      let prefsForFriend = result.get(friendId)
+      if (!prefsForFriend) {
+        prefsForFriend = { ...EMPTY_PREFERENCES, muted: [] }
+        result.set(friendId, prefsForFriend)
+      }
+      return prefsForFriend
+    }
+    for (const r of prefs) {
+      const prefsForFriend = entry(Number(r.friendId))
+      prefsForFriend.favorite = !!r.isFavorite
+      prefsForFriend.groupId = r.groupId === null ? null : Number(r.groupId)
+    }
+    for (const r of mutes) entry(Number(r.friendId)).muted.push(r.kind)
+    return result
+  }
+
+  async getPreferencesFor(ownerId: number, friendId: number): Promise<FriendPreferences> {
+    const [prefs, mutes] = await Promise.all([
+      withTimeout(
+        prismaRanked.$queryRaw<{ groupId: number | null; isFavorite: boolean }[]>`
+          SELECT groupId, isFavorite FROM BST_FriendPreferences
+          WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+        `
+      ),
+      withTimeout(
+        prismaRanked.$queryRaw<{ kind: FriendNotificationKind }[]>`
+          SELECT kind FROM BST_FriendNotificationMutes
+          WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+        `
+      )
+    ])
+    return {
+      favorite: !!prefs[0]?.isFavorite,
+      groupId: prefs[0]?.groupId == null ? null : Number(prefs[0].groupId),
+      muted: mutes.map(m => m.kind)
+    }
+  }
+
+  async setFavorite(ownerId: number, friendId: number, favorite: boolean): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      await prismaRanked.$transaction([
+        this.ensurePreferenceRow(ownerId, friendId, nowForDb),
+        prismaRanked.$executeRaw`
+          UPDATE BST_FriendPreferences SET isFavorite = ${favorite}, updatedAt = ${nowForDb}
+          WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+        `
+      ])
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao marcar amigo favorito', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Move o amigo para um grupo de ownerId (null = sem grupo)
+   */
+  async setGroup(ownerId: number, friendId: number, groupId: number | null): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      if (groupId !== null) {
+        const group = await withTimeout(
+          prismaRanked.$queryRaw<{ ok: number }[]>`
+            SELECT TOP 1 1 AS ok FROM BST_FriendGroups WHERE id = ${groupId} AND ownerId = ${ownerId}
+          `
+        )
+        if (group.length === 0) return { ok: false, reason: 'GROUP_NOT_FOUND' }
+      }
+
+      const nowForDb = toBrasiliaForDb(new Date())
+      await prismaRanked.$transaction([
+        this.ensurePreferenceRow(ownerId, friendId, nowForDb),
+        prismaRanked.$executeRaw`
+          UPDATE BST_FriendPreferences SET groupId = ${groupId}, updatedAt = ${nowForDb}
+          WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+        `
+      ])
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao mover amigo de grupo', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Substitui as notificacoes silenciadas de friendId para ownerId
+   */
+  async setMuted(ownerId: number, friendId: number, kinds: FriendNotificationKind[]): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      await prismaRanked.$transaction([
+        prismaRanked.$executeRaw`
+          DELETE FROM BST_FriendNotificationMutes WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+        `,
+        ...Array.from(new Set(kinds)).map(
+          kind => prismaRanked.$executeRaw`
+            INSERT INTO BST_FriendNotificationMutes (ownerId, friendId, kind, createdAt)
+            VALUES (${ownerId}, ${friendId}, ${kind}, ${nowForDb})
+          `
+        )
+      ])
+      return { ok: true }
+    } catch (err) {
+      log('error', 'Erro ao silenciar notificacoes de amigo', err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * ownerId silenciou `kind` vindo de friendId? Em falha do banco a notificacao e entregue.
+   */
+  async isMuted(ownerId: number, friendId: number, kind: FriendNotificationKind): Promise<boolean> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ ok: number }[]>`
+          SELECT TOP 1 1 AS ok FROM BST_FriendNotificationMutes
+          WHERE ownerId = ${ownerId} AND friendId = ${friendId} AND kind = ${kind}
+        `
+      )
+      return rows.length > 0
+    } catch (err) {
+      log('warn', 'Falha ao consultar notificacoes silenciadas', err)
+      return false
+    }
+  }
+
+  /**
+   * Jogadores que silenciaram `kind` vindo de friendId (ex.: presenca)
+   */
+  async listMutedBy(friendId: number, kind: FriendNotificationKind): Promise<Set<number>> {
+    try {
+      const rows = await withTimeout(
+        prismaRanked.$queryRaw<{ ownerId: number }[]>`
+          SELECT ownerId FROM BST_FriendNotificationMutes WHERE friendId = ${friendId} AND kind = ${kind}
+        `
+      )
+      return new Set(rows.map(r => Number(r.ownerId)))
+    } catch (err) {
+      log('warn', 'Falha ao consultar notificacoes silenciadas', err)
+      return new Set()
+    }
+  }
+
+  /**
+   * Descarta as preferencias entre os dois (nos dois sentidos) quando a amizade acaba
+   */
+  async clearBetween(userA: number, userB: number): Promise<void> {
+    try {
+      await prismaRanked.$transaction([
+        prismaRanked.$executeRaw`
+          DELETE FROM BST_FriendPreferences
+          WHERE (ownerId = ${userA} AND friendId = ${userB}) OR (ownerId = ${userB} AND friendId = ${userA})
+        `,
+        prismaRanked.$executeRaw`
+          DELETE FROM BST_FriendNotificationMutes
+          WHERE (ownerId = ${userA} AND friendId = ${userB}) OR (ownerId = ${userB} AND friendId = ${userA})
+        `
+      ])
+    } catch (err) {
+      log('warn', `Falha ao limpar preferencias entre ${userA} e ${userB}`, err)
+    }
+  }
+
+  private ensurePreferenceRow(ownerId: number, friendId: number, nowForDb: string) {
+    return prismaRanked.$executeRaw`
+      INSERT INTO BST_FriendPreferences (ownerId, friendId, groupId, isFavorite, updatedAt)
+      SELECT ${ownerId}, ${friendId}, NULL, 0, ${nowForDb}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM BST_FriendPreferences WHERE ownerId = ${ownerId} AND friendId = ${friendId}
+      )
+    `
+  }
+}
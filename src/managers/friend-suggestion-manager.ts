@@ -0,0 +1,218 @@
+import { prismaRanked, prismaGame, PrismaGame } from '../database/prisma'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import { withTimeout } from '../lib/with-timeout'
+
+/**
+ * Sugestao de amizade com os sinais que a justificam
+ */
+export interface FriendSuggestion {
+  oidUser: number
+  username: string | null
+  score: number
+  mutualFriends: number
+  sharedQuartets: number
+  sharedMatches: number
+  sameClan: boolean
+}
+
+export interface FriendSuggestionPage {
+  suggestions: FriendSuggestion[]
+  offset: number
+  total: number
+  hasMore: boolean
+}
+
+// Peso de cada sinal no ranking
+const SCORE_MUTUAL_FRIEND = 3
+const SCORE_SHARED_QUARTET = 5
+const SCORE_SAME_CLAN = 2
+const SCORE_SHARED_MATCH = 1
+const MAX_SHARED_MATCH_SCORE = 10
+
+// Candidatos considerados por sinal e no ranking final
+const SIGNAL_CANDIDATE_LIMIT = 200
+const MAX_SUGGESTIONS = 100
+
+const SUGGESTIONS_DEFAULT_LIMIT = 20
+const SUGGESTIONS_MAX_LIMIT = 50
+const SUGGESTIONS_CACHE_TTL_SECONDS = Number(process.env.FRIEND_SUGGESTIONS_CACHE_TTL_SECONDS) || 600
+
+type CandidateRow = { oidUser: number; total: number }
+
+/**
+ * FriendSuggestionManager - Sugestoes de amizade a partir de quartetos, clas, partidas e amigos em comum
+ *
+ * O ranking completo (ate MAX_SUGGESTIONS) fica em cache por jogador; as paginas sao recortes dele.
+ */
+export class FriendSuggestionManager {
+  private redis = getRedisClient()
+
+  private cacheKey(oidUser: number) { return `friends:suggestions:${oidUser}` }
+
+  async getSuggestions(
+    oidUser: number,
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<FriendSuggestionPage> {
+    const offset = Math.max(0, options.offset ?? 0)
+    const limit = Math.min(Math.max(1, options.limit ?? SUGGESTIONS_DEFAULT_LIMIT), SUGGESTIONS_MAX_LIMIT)
+
+    const ranked = await this.getRanked(oidUser)
+    const suggestions = ranked.slice(offset, offset + limit)
+    return { suggestions, offset, total: ranked.length, hasMore: offset + limit < ranked.length }
+  }
+
+  /**
+   * Descarta o ranking em cache (ex.: apos nova amizade ou bloqueio)
+   */
+  async invalidate(oidUser: number): Promise<void> {
+    await this.redis.del(this.cacheKey(oidUser))
+  }
+
+  private async getRanked(oidUser: number): Promise<FriendSuggestion[]> {
+    try {
+      const cached = await this.redis.get(this.cacheKey(oidUser))
+      if (cached) return JSON.parse(cached) as FriendSuggestion[]
+    } catch (err) {
+      log('warn', `Falha ao ler sugestoes em cache de ${oidUser}`, err)
+    }
+
+    const ranked = await this.buildRanking(oidUser)
+    await this.redis
+      .set(this.cacheKey(oidUser), JSON.stringify(ranked), { EX: SUGGESTIONS_CACHE_TTL_SECONDS })
+      .catch(() => {})
+    return ranked
+  }
+
+  private async buildRanking(oidUser: number): Promise<FriendSuggestion[]> {
+    // Um sinal indisponivel nao impede os demais
+    const safe = <T>(label: string, promise: Promise<T[]>) =>
+      promise.catch((err) => {
+        log('warn', `Sinal de sugestao indisponivel (${label}) para ${oidUser}`, err)
+        return [] as T[]
+      })
+
+    const [excluded, mutual, quartets, clan, matches] = await Promise.all([
+      this.loadExcludedIds(oidUser),
+      safe('amigos em comum', this.loadMutualFriends(oidUser)),
+      safe('quartetos', this.loadQuartetMates(oidUser)),
+      safe('cla', this.loadClanMates(oidUser)),
+      safe('partidas', this.loadMatchMates(oidUser))
+    ])
+
+    const candidates = new Map<number, Omit<FriendSuggestion, 'username' | 'score'>>()
+    const candidate = (id: number) => {
+      let entry = candidates.get(id)
+      if (!entry) {
+        entry = { oidUser: id, mutualFriends: 0, sharedQuartets: 0, sharedMatches: 0, sameClan: false }
+        candidates.set(id, entry)
+      }
+      return entry
+    }
+    for (const row of mutual) candidate(Number(row.oidUser)).mutualFriends = Number(row.total)
+    for (const row of quartets) candidate(Number(row.oidUser)).sharedQuartets = Number(row.total)
+    for (const row of matches) candidate(Number(row.oidUser)).sharedMatches = Number(row.total)
+    for (const id of clan) candidate(id).sameClan = true
+
+    const scored = Array.from(candidates.values())
+      .filter((c) => c.oidUser !== oidUser && !excluded.has(c.oidUser))
+      .map((c) => ({
+        ...c,
+        score:
+          c.mutualFriends * SCORE_MUTUAL_FRIEND +
+          c.sharedQuartets * SCORE_SHARED_QUARTET +
+          (c.sameClan ? SCORE_SAME_CLAN : 0) +
+          Math.min(c.sharedMatches * SCORE_SHARED_MATCH, MAX_SHARED_MATCH_SCORE)
+      }))
+      .sort((a, b) => b.score - a.score || a.oidUser - b.oidUser)
+      .slice(0, MAX_SUGGESTIONS)
+
+    if (scored.length === 0) return []
+
+    const users = await withTimeout(
+      prismaGame.$queryRaw<{ oiduser: number; NickName: string | null }[]>`
+        SELECT oiduser, NickName FROM CBT_User WHERE oiduser IN (${PrismaGame.join(scored.map((c) => c.oidUser))})
+      `
+    )
+    const nameById = new Map<number, string | null>(users.map((u) => [Number(u.oiduser), u.NickName]))
+    return scored.map((c) => ({ ...c, username: nameById.get(c.oidUser) ?? null }))
+  }
+
+  /**
+   * Amigos, pedidos pendentes e bloqueios (em qualquer direcao) nunca sao sugeridos
+   */
+  private async loadExcludedIds(oidUser: number): Promise<Set<number>> {
+    const rows = await withTimeout(
+      prismaRanked.$queryRaw<{ requesterId: number; targetId: number }[]>`
+        SELECT requesterId, targetId
+        FROM BST_Friends
+        WHERE status IN ('ACCEPTED', 'PENDING', 'BLOCKED') AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+      `
+    )
+    return new Set(rows.map((r) => Number(r.requesterId === oidUser ? r.targetId : r.requesterId)))
+  }
+
+  private loadMutualFriends(oidUser: number): Promise<CandidateRow[]> {
+    return withTimeout(
+      prismaRanked.$queryRaw<CandidateRow[]>`
+        WITH myFriends AS (
+          SELECT CASE WHEN requesterId = ${oidUser} THEN targetId ELSE requesterId END AS friendId
+          FROM BST_Friends
+          WHERE status = 'ACCEPTED' AND (requesterId = ${oidUser} OR targetId = ${oidUser})
+        ),
+        friendsOfFriends AS (
+          SELECT CASE WHEN f.requesterId = mf.friendId THEN f.targetId ELSE f.requesterId END AS candidateId
+          FROM BST_Friends f
+          INNER JOIN myFriends mf ON f.requesterId = mf.friendId OR f.targetId = mf.friendId
+          WHERE f.status = 'ACCEPTED'
+        )
+        SELECT TOP (${SIGNAL_CANDIDATE_LIMIT}) candidateId AS oidUser, COUNT(*) AS total
+        FROM friendsOfFriends
+        WHERE candidateId <> ${oidUser}
+        GROUP BY candidateId
+        ORDER BY COUNT(*) DESC
+      `
+    )
+  }
+
+  private loadQuartetMates(oidUser: number): Promise<CandidateRow[]> {
+    return withTimeout(
+      prismaGame.$queryRaw<CandidateRow[]>`
+        SELECT TOP (${SIGNAL_CANDIDATE_LIMIT}) other.oidUser, COUNT(*) AS total
+        FROM dbo.BST_EventQuartetMember mine
+        INNER JOIN dbo.BST_EventQuartetMember other
+          ON other.QuartetID = mine.QuartetID AND other.oidUser <> mine.oidUser
+        WHERE mine.oidUser = ${oidUser}
+        GROUP BY other.oidUser
+        ORDER BY COUNT(*) DESC
+      `
+    )
+  }
+
+  private async loadClanMates(oidUser: number): Promise<number[]> {
+    const rows = await withTimeout(
+      prismaGame.$queryRaw<{ oidUser: number }[]>`
+        SELECT TOP (${SIGNAL_CANDIDATE_LIMIT}) other.oidUser
+        FROM NX_GuildMaster.dbo.gdt_Member mine
+        INNER JOIN NX_GuildMaster.dbo.gdt_Member other
+          ON other.oidGuild = mine.oidGuild AND other.oidUser <> mine.oidUser
+        WHERE mine.oidUser = ${oidUser}
+      `
+    )
+    return rows.map((r) => Number(r.oidUser))
+  }
+
+  private loadMatchMates(oidUser: number): Promise<CandidateRow[]> {
+    return withTimeout(
+      prismaRanked.$queryRaw<CandidateRow[]>`
+        SELECT TOP (${SIGNAL_CANDIDATE_LIMIT}) other.oidUser, COUNT(*) AS total
+        FROM BST_MatchPlayer mine
+        INNER JOIN BST_MatchPlayer other
+          ON other.matchId = mine.matchId AND other.oidUser <> mine.oidUser
+        WHERE mine.oidUser = ${oidUser}
+        GROUP BY other.oidUser
+        ORDER BY COUNT(*) DESC
+      `
+    )
+  }
+}
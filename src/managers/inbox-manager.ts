@@ -0,0 +1,131 @@
+import { createHash } from 'crypto'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import type { OutboundMessage } from '../types/protocol'
+
+/**
+ * Evento guardado na caixa de entrada de um jogador offline
+ */
+export interface InboxEntry {
+  id: string
+  type: string
+  payload: unknown
+  createdAt: number
+}
+
+/**
+ * Evento recebido por broadcast. `eventId` e definido por quem publica e identifica o evento
+ * mesmo quando o conteudo se repete.
+ */
+export interface BroadcastEvent {
+  type: string
+  payload: Record<string, unknown>
+  eventId?: string
+}
+
+const INBOX_TTL_SECONDS = Number(process.env.WS_INBOX_TTL_SECONDS) || 7 * 24 * 3600 // 7 dias
+const INBOX_MAX_LENGTH = 200
+const INBOX_REPLAY_LIMIT = 100
+
+/**
+ * InboxManager - Caixa de entrada persistente (Redis Streams) para eventos
+ * que nao puderam ser entregues porque o jogador estava offline.
+ *
+ * Os eventos sao reenviados apos o AUTH e removidos quando o cliente confirma (INBOX_ACK).
+ */
+export class InboxManager {
+  private redis = getRedisClient()
+
+  private inboxKey(oidUser: number) { return `inbox:${oidUser}` }
+  private claimKey(id: string) { return `inbox:claim:${id}` }
+
+  /**
+   * Guarda um evento para o jogador. Retorna o id da entrada no stream.
+   */
+  async enqueue(oidUser: number, message: OutboundMessage): Promise<string | null> {
+    const key = this.inboxKey(oidUser)
+    const now = Date.now()
+    try {
+      const id = await this.redis.xAdd(
+        key,
+        '*',
+        {
+          type: message.type,
+          payload: JSON.stringify(message.payload ?? null),
+          createdAt: String(now)
+        },
+        { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: INBOX_MAX_LENGTH } }
+      )
+      // Descarta eventos mais antigos que o TTL e renova a expiracao da chave
+      const multi = this.redis.multi()
+      multi.xTrim(key, 'MINID', `${now - INBOX_TTL_SECONDS * 1000}-0`)
+      multi.expire(key, INBOX_TTL_SECONDS)
+      await multi.exec()
+      log('debug', `Evento ${message.type} guardado na inbox de ${oidUser} (${id})`)
+      return id
+    } catch (err) {
+      log('error', `Falha ao guardar ${message.type} na inbox de ${oidUser}`, err)
+      return null
+    }
+  }
+
+  /**
+   * Lista eventos pendentes em ordem de chegada
+   */
+  async list(oidUser: number, limit: number = INBOX_REPLAY_LIMIT): Promise<InboxEntry[]> {
+    const minCreatedAt = Date.now() - INBOX_TTL_SECONDS * 1000
+    try {
+      const entries = await this.redis.xRange(this.inboxKey(oidUser), `${minCreatedAt}-0`, '+', { COUNT: limit })
+      return entries.map(entry => {
+        const fields = entry.message as Record<string, string>
+        let payload: unknown = null
+        try {
+          payload = JSON.parse(fields.payload)
+        } catch {
+          payload = null
+        }
+        return {
+          id: entry.id,
+          type: fields.type,
+          payload,
+          createdAt: Number(fields.createdAt) || 0
+        }
+      })
+    } catch (err) {
+      log('warn', `Falha ao ler inbox de ${oidUser}`, err)
+      return []
+    }
+  }
+
+  /**
+   * Remove eventos confirmados pelo cliente
+   */
+  async ack(oidUser: number, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0
+    try {
+      return await this.redis.xDel(this.inboxKey(oidUser), ids)
+    } catch (err) {
+      log('warn', `Falha ao confirmar eventos da inbox de ${oidUser}`, err)
+      return 0
+    }
+  }
+
+  /**
+   * Garante que apenas uma instancia processe um evento recebido por broadcast (social:events).
+   * Retorna true para a primeira instancia que reivindicar o evento.
+   * Usa o eventId do envelope; sem ele, o hash do conteudo (eventos identicos em 60s contam como um).
+   */
+  async claimEvent(event: BroadcastEvent): Promise<boolean> {
+    const id =
+      typeof event.eventId === 'string' && event.eventId
+        ? `id:${event.eventId}`
+        : createHash('sha1').update(JSON.stringify(event)).digest('hex')
+    try {
+      const result = await this.redis.set(this.claimKey(id), '1', { NX: true, EX: 60 })
+      return result === 'OK'
+    } catch (err) {
+      log('warn', 'Falha ao reivindicar evento da inbox', err)
+      return false
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+
+const JOB_LOCK_PREFIX = 'jobs:lock:'
+
+// Libera o lock apenas se ainda pertence a esta execucao (o TTL pode ter vencido no meio)
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+/**
+ * JobLockManager - Garante que uma tarefa agendada rode em apenas uma instancia por vez
+ */
+export class JobLockManager {
+  private redis = getRedisClient()
+
+  private lockKey(job: string) { return `${JOB_LOCK_PREFIX}${job}` }
+
+  /**
+   * Executa `fn` se conseguir o lock do job. Retorna null quando outra instancia ja o detem.
+   * Em sucesso o lock fica retido ate o TTL vencer: com TTL proximo do intervalo do agendamento,
+   * cada janela executa em uma unica instancia. Em erro o lock e liberado para outra tentar.
+   */
+  async runExclusive<T>(job: string, ttlSeconds: number, fn: () => Promise<T>): Promise<T | null> {
+    const owner = uuidv4()
+    const acquired = await this.redis.set(this.lockKey(job), owner, { NX: true, EX: ttlSeconds })
+    if (acquired !== 'OK') {
+      log('debug', `Job ${job} ja em execucao em outra instancia`)
+      return null
+    }
+
+    try {
+      return await fn()
+    } catch (err) {
+      await this.redis
+        .eval(RELEASE_LOCK_SCRIPT, { keys: [this.lockKey(job)], arguments: [owner] })
+        .catch((releaseErr) => log('warn', `Falha ao liberar lock do job ${job}`, releaseErr))
+      throw err
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { prismaRanked, prismaGame } from '../database/prisma'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import { toBrasiliaForDb } from '../lib/time'
+
+/**
+ * Punicao ativa. `until` em epoch ms; null = permanente.
+ */
+export interface Sanction {
+  until: number | null
+  reason?: string | null
+}
+
+export interface ModerationStatus {
+  ban: Sanction | null
+  mute: Sanction | null
+}
+
+// Cache curto: bans/mutes aplicados pelo site passam a valer em ate N segundos
+// (ou imediatamente via MODERATION_UPDATED / SESSION_REVOKE)
+const MODERATION_CACHE_TTL_SECONDS = Number(process.env.MODERATION_CACHE_TTL_SECONDS) || 60
+
+type SanctionRow = {
+  remainingSeconds: number | null
+  reason?: string | null
+}
+
+/**
+ * ModerationManager - Ban (CBT_UserAuth.BlockStartDate/BlockEndDate) e mute social (BST_SocialMutes)
+ */
+export class ModerationManager {
+  private redis = getRedisClient()
+
+  private cacheKey(oidUser: number) { return `moderation:${oidUser}` }
+
+  /**
+   * Situacao atual do jogador, com cache no Redis. Em falha do banco nada e bloqueado.
+   */
+  async getStatus(oidUser: number): Promise<ModerationStatus> {
+    try {
+      const cached = await this.redis.get(this.cacheKey(oidUser))
+      if (cached) return this.dropExpired(JSON.parse(cached) as ModerationStatus)
+    } catch (err) {
+      log('warn', `Falha ao ler cache de moderacao de ${oidUser}`, err)
+    }
+
+    let status: ModerationStatus
+    try {
+      const [ban, mute] = await Promise.all([this.loadBan(oidUser), this.loadMute(oidUser)])
+      status = { ban, mute }
+    } catch (err) {
+      log('error', `Erro ao consultar ban/mute de ${oidUser}`, err)
+      return { ban: null, mute: null }
+    }
+
+    // O cache nunca vive alem da proxima expiracao
+    const expirations = [status.ban?.until, status.mute?.until].filter((until): until is number => !!until)
+    const ttl = Math.min(
+      MODERATION_CACHE_TTL_SECONDS,
+      ...expirations.map((until) => Math.ceil((until - Date.now()) / 1000))
+    )
+    if (ttl > 0) {
+      await this.redis.set(this.cacheKey(oidUser), JSON.stringify(status), { EX: ttl }).catch(() => {})
+    }
+    return status
+  }
+
+  async isMuted(oidUser: number): Promise<Sanction | null> {
+    return (await this.getStatus(oidUser)).mute
+  }
+
+  /**
+   * Descarta o cache (ban/mute alterado pelo site)
+   */
+  async invalidate(oidUser: number): Promise<void> {
+    await this.redis.del(this.cacheKey(oidUser))
+  }
+
+  private dropExpired(status: ModerationStatus): ModerationStatus {
+    const active = (sanction: Sanction | null) =>
+      sanction && (sanction.until === null || sanction.until > Date.now()) ? sanction : null
+    return { ban: active(status.ban), mute: active(status.mute) }
+  }
+
+  /**
+   * As datas do banco estao no horario de Brasilia: a comparacao e o tempo restante
+   * sao calculados no proprio SQL
+   */
+  private async loadBan(oidUser: number): Promise<Sanction | null> {
+    const nowForDb = toBrasiliaForDb(new Date())
+    // BlockEndDate nulo com BlockStartDate preenchido e ban permanente; os dois nulos = sem ban
+    const rows = await prismaGame.$queryRaw<SanctionRow[]>`
+      SELECT TOP 1
+        CASE WHEN BlockEndDate IS NULL THEN NULL ELSE DATEDIFF(SECOND, ${nowForDb}, BlockEndDate) END AS remainingSeconds
+      FROM CBT_UserAuth
+      WHERE oidUser = ${oidUser}
+        AND (
+          (BlockEndDate IS NULL AND BlockStartDate <= ${nowForDb})
+          OR (BlockEndDate > ${nowForDb} AND (BlockStartDate IS NULL OR BlockStartDate <= ${nowForDb}))
+        )
+    `
+    if (rows.length === 0) return null
+    const { remainingSeconds } = rows[0]
+    return { until: remainingSeconds === null ? null : Date.now() + Number(remainingSeconds) * 1000 }
+  }
+
+  private async loadMute(oidUser: number): Promise<Sanction | null> {
+    const nowForDb = toBrasiliaForDb(new Date())
+    const rows = await prismaRanked.$queryRaw<SanctionRow[]>`
+      SELECT TOP 1
+        CASE WHEN endDate IS NULL THEN NULL ELSE DATEDIFF(SECOND, ${nowForDb}, endDate) END AS remainingSeconds,
+        reason
+      FROM BST_SocialMutes
+      WHERE oidUser = ${oidUser}
+        AND startDate <= ${nowForDb}
+        AND (endDate IS NULL OR endDate > ${nowForDb})
+      ORDER BY CASE WHEN endDate IS NULL THEN 0 ELSE 1 END, endDate DESC
+    `
+    if (rows.length === 0) return null
+    const { remainingSeconds, reason } = rows[0]
+    return {
+      until: remainingSeconds === null ? null : Date.now() + Number(remainingSeconds) * 1000,
+      reason: reason ?? null
+    }
+  }
+}
@@ -1,26 +1,241 @@
+import { v4 as uuidv4 } from 'uuid'
 import { getRedisClient } from '../database/redis-client'
 import { log } from '../utils/logger'
+import { PARTY_MODE_SIZES } from '../types/protocol'
+
+/**
+ * Modos de party: dupla (ranked), quarteto (eventos) ou 5-stack (partidas customizadas)
+ */
+export type PartyMode = 'DUO' | 'QUARTET' | 'FIVE_STACK'
+
+export const DEFAULT_PARTY_MODE: PartyMode = 'DUO'
 
 export interface PartyState {
   id: string
   leaderId: number
   members: number[] // inclui o líder
   createdAt: number
+  mode: PartyMode
+  maxSize: number
+}
+
+export interface PartyChatMessage {
+  id: string
+  partyId: string
+  senderId: number
+  senderName: string
+  text: string
+  createdAt: number
+}
+
+export interface PartyInvite {
+  partyId: string
+  inviterId: number
+  inviterName: string
+  targetId: number
+  createdAt: number
+  expiresAt: number
 }
 
+const PARTY_TTL_SECONDS = 3600
+const PARTY_CHAT_HISTORY_SIZE = Number(process.env.PARTY_CHAT_HISTORY_SIZE) || 50
+const PARTY_CHAT_MAX_LENGTH = 300
+
+const PARTY_INVITE_TTL_SECONDS = Number(process.env.PARTY_INVITE_TTL_SECONDS) || 300 // 5 min
+// O registro vive um pouco alem do expiresAt para que o sweeper consiga notificar a expiracao
+const PARTY_INVITE_GRACE_SECONDS = 60
+const PARTY_INVITE_SWEEP_BATCH = 100
+
+const PARTY_KEY_PREFIX = 'party:'
+const PLAYER_INDEX_PREFIX = 'party:byPlayer:'
+const INVITE_PAIR_PREFIX = 'party:invitepair:'
+const INVITE_EXPIRY_KEY = 'party:invites:expiry'
+const INVITE_USER_INDEX_PREFIX = 'party:invites:user:'
+const INVITE_INDEX_MIGRATION_KEY = 'party:invites:index:migrated'
+
+/*
+ * Scripts Lua das mutacoes de party. Cada script le, valida e grava a party (e os
+ * indices party:byPlayer:*) em uma unica operacao, evitando que aceites simultaneos
+ * estourem o tamanho da party ou deixem indices apontando para parties removidas.
+ *
+ * Convencao: KEYS[1] = party, KEYS[2] = chat, demais KEYS = indices por jogador lidos antes
+ * da chamada (todas as chaves tocadas sao declaradas, como exige o Redis Cluster).
+ * ARGV[1] = prefixo do indice por jogador (identifica esses KEYS), ARGV[2] = TTL.
+ * Retorno: { status, partyJson? }. 'RETRY' = os membros mudaram desde a leitura.
+ */
+const PARTY_SCRIPT_HELPERS = `
+local function contains(list, value)
+  for _, item in ipairs(list) do
+    if item == value then return true end
+  end
+  return false
+end
+
+local indexKeys = {}
+for _, key in ipairs(KEYS) do
+  if string.sub(key, 1, #ARGV[1]) == ARGV[1] then indexKeys[string.sub(key, #ARGV[1] + 1)] = key end
+end
+
+local function declared(members)
+  for _, member in ipairs(members) do
+    if not indexKeys[tostring(member)] then return false end
+  end
+  return true
+end
+
+local function persist(party)
+  local raw = cjson.encode(party)
+  redis.call('SET', KEYS[1], raw, 'EX', ARGV[2])
+  redis.call('EXPIRE', KEYS[2], ARGV[2])
+  for _, member in ipairs(party.members) do
+    redis.call('SET', indexKeys[tostring(member)], party.id, 'EX', ARGV[2])
+  end
+  return raw
+end
+`
+
+// KEYS[3] = indice do lider, KEYS[4] = party atual do lider (se havia) | ARGV[3] = id dessa party
+// ('' se nenhuma), ARGV[4] = party nova (JSON)
+const CREATE_PARTY_SCRIPT = `${PARTY_SCRIPT_HELPERS}
+local existing = redis.call('GET', KEYS[3])
+if existing then
+  if existing ~= ARGV[3] then return { 'RETRY' } end
+  local current = redis.call('GET', KEYS[4])
+  if current then return { 'EXISTS', current } end
+end
+local party = cjson.decode(ARGV[4])
+if not declared(party.members) then return { 'RETRY' } end
+return { 'OK', persist(party) }
+`
+
+// KEYS[3] = indice do jogador | ARGV[3] = oidUser, ARGV[4] = partyId, ARGV[5] = tamanho padrao
+const ADD_MEMBER_SCRIPT = `${PARTY_SCRIPT_HELPERS}
+local current = redis.call('GET', KEYS[3])
+if current and current ~= ARGV[4] then return { 'ALREADY_IN_PARTY' } end
+local raw = redis.call('GET', KEYS[1])
+if not raw then return { 'PARTY_NOT_FOUND' } end
+local party = cjson.decode(raw)
+local oidUser = tonumber(ARGV[3])
+if contains(party.members, oidUser) then return { 'OK', raw } end
+local maxSize = tonumber(party.maxSize) or tonumber(ARGV[5])
+if #party.members >= maxSize then return { 'PARTY_FULL' } end
+table.insert(party.members, oidUser)
+if not declared(party.members) then return { 'RETRY' } end
+return { 'OK', persist(party) }
+`
+
+// KEYS[3] = indice do jogador | ARGV[3] = oidUser, ARGV[4] = partyId
+const REMOVE_MEMBER_SCRIPT = `${PARTY_SCRIPT_HELPERS}
+local raw = redis.call('GET', KEYS[1])
+if raw and not declared(cjson.decode(raw).members) then return { 'RETRY' } end
+if redis.call('GET', KEYS[3]) == ARGV[4] then redis.call('DEL', KEYS[3]) end
+if not raw then return { 'PARTY_NOT_FOUND' } end
+local party = cjson.decode(raw)
+local oidUser = tonumber(ARGV[3])
+local members = {}
+for _, member in ipairs(party.members) do
+  if member ~= oidUser then table.insert(members, member) end
+end
+if #members == 0 then
+  redis.call('DEL', KEYS[1], KEYS[2])
+  return { 'DELETED' }
+end
+party.members = members
+if not contains(members, party.leaderId) then party.leaderId = members[1] end
+return { 'OK', persist(party) }
+`
+
+// ARGV[3] = novo lider, ARGV[4] = lider esperado ('' para nao validar)
+const TRANSFER_LEAD_SCRIPT = `${PARTY_SCRIPT_HELPERS}
+local raw = redis.call('GET', KEYS[1])
+if not raw then return { 'PARTY_NOT_FOUND' } end
+local party = cjson.decode(raw)
+if not declared(party.members) then return { 'RETRY' } end
+if ARGV[4] ~= '' and party.leaderId ~= tonumber(ARGV[4]) then return { 'NOT_LEADER' } end
+local newLeaderId = tonumber(ARGV[3])
+if not contains(party.members, newLeaderId) then return { 'NOT_MEMBER' } end
+party.leaderId = newLeaderId
+return { 'OK', persist(party) }
+`
+
+// ARGV[3] = partyId. Remove apenas indices que ainda apontam para esta party.
+const DELETE_PARTY_SCRIPT = `${PARTY_SCRIPT_HELPERS}
+local raw = redis.call('GET', KEYS[1])
+if raw and not declared(cjson.decode(raw).members) then return { 'RETRY' } end
+redis.call('DEL', KEYS[1], KEYS[2])
+if not raw then return { 'PARTY_NOT_FOUND' } end
+local party = cjson.decode(raw)
+for _, member in ipairs(party.members) do
+  local indexKey = indexKeys[tostring(member)]
+  if redis.call('GET', indexKey) == ARGV[3] then redis.call('DEL', indexKey) end
+end
+return { 'OK', raw }
+`
+
+// Tentativas quando os membros mudam entre a leitura e o script
+const PARTY_SCRIPT_ATTEMPTS = 3
+
+/*
+ * Reivindica convites vencidos: remove do indice de expiracao e apaga o registro.
+ * Apenas a instancia que conseguir o ZREM recebe o convite (notificacao unica).
+ * KEYS[1] = indice de expiracao; para cada par i: KEYS[3i-1] = registro do par,
+ * KEYS[3i] e KEYS[3i+1] = indices por usuario dos dois jogadores | ARGV[i] = par
+ */
+const CLAIM_EXPIRED_INVITES_SCRIPT = `
+local claimed = {}
+for i, pairId in ipairs(ARGV) do
+  local base = (i - 1) * 3 + 1
+  if redis.call('ZREM', KEYS[1], pairId) == 1 then
+    redis.call('SREM', KEYS[base + 2], pairId)
+    redis.call('SREM', KEYS[base + 3], pairId)
+    local raw = redis.call('GET', KEYS[base + 1])
+    if raw then
+      redis.call('DEL', KEYS[base + 1])
+      table.insert(claimed, raw)
+    end
+  end
+end
+return claimed
+`
+
 /**
  * PartyManager - Gerencia parties/duplas em Redis (temporário)
+ *
+ * Convites ficam em party:invitepair:{menorId}:{maiorId} (um por par de jogadores),
+ * no sorted set party:invites:expiry (score = expiresAt), varrido pelo servidor, e nos
+ * indices party:invites:user:{oidUser} (pares de cada jogador) usados para listar/limpar.
  */
 export class PartyManager {
   private redis = getRedisClient()
 
-  private partyKey(id: string) { return `party:${id}` }
-  private playerIndexKey(oidUser: number) { return `party:byPlayer:${oidUser}` }
+  private partyKey(id: string) { return `${PARTY_KEY_PREFIX}${id}` }
+  private playerIndexKey(oidUser: number) { return `${PLAYER_INDEX_PREFIX}${oidUser}` }
+  private chatKey(id: string) { return `party:${id}:chat` }
+  private invitePairId(a: number, b: number) { return `${Math.min(a, b)}:${Math.max(a, b)}` }
+  private invitePairKey(a: number, b: number) { return `${INVITE_PAIR_PREFIX}${this.invitePairId(a, b)}` }
+  private inviteUserIndexKey(oidUser: number) { return `${INVITE_USER_INDEX_PREFIX}${oidUser}` }
+
+  static isPartyMode(mode: unknown): mode is PartyMode {
+    return typeof mode === 'string' && Object.prototype.hasOwnProperty.call(PARTY_MODE_SIZES, mode)
+  }
+
+  /**
+   * Parties gravadas antes dos modos existirem sao duplas
+   */
+  private normalize(party: PartyState): PartyState {
+    const mode = PartyManager.isPartyMode(party.mode) ? party.mode : DEFAULT_PARTY_MODE
+    const maxSize = Number(party.maxSize) > 0 ? Number(party.maxSize) : PARTY_MODE_SIZES[mode]
+    return { ...party, mode, maxSize }
+  }
+
+  isFull(party: PartyState): boolean {
+    return party.members.length >= party.maxSize
+  }
 
   async getParty(partyId: string): Promise<PartyState | null> {
     try {
       const raw = await this.redis.get(this.partyKey(partyId))
-      return raw ? JSON.parse(raw) as PartyState : null
+      return raw ? this.normalize(JSON.parse(raw) as PartyState) : null
     } catch (err) {
       log('warn', `Falha ao carregar party ${partyId}`, err)
       return null
@@ -35,11 +250,29 @@ export class PartyManager {
     }
   }
 
-  async createParty(leaderId: number): Promise<PartyState> {
+  /**
+   * Cria uma party (ou devolve a atual do lider).
+   * @param options.mode - Modo da party (padrao DUO)
+   * @param options.maxSize - Tamanho maximo, entre 2 e o tamanho do modo (padrao: tamanho do modo)
+   */
+  async createParty(
+    leaderId: number,
+    options: { mode?: unknown; maxSize?: unknown } = {}
+  ): Promise<{ ok: boolean; reason?: string; party?: PartyState }> {
+    const mode = options.mode === undefined || options.mode === null ? DEFAULT_PARTY_MODE : options.mode
+    if (!PartyManager.isPartyMode(mode)) {
+      return { ok: false, reason: 'INVALID_MODE' }
+    }
+    const modeSize = PARTY_MODE_SIZES[mode]
+    const maxSize = options.maxSize === undefined || options.maxSize === null ? modeSize : Number(options.maxSize)
+    if (!Number.isInteger(maxSize) || maxSize < 2 || maxSize > modeSize) {
+      return { ok: false, reason: 'INVALID_SIZE' }
+    }
+
     const existing = await this.getPartyIdByPlayer(leaderId)
     if (existing) {
       const party = await this.getParty(existing)
-      if (party) return party
+      if (party) return { ok: true, party }
     }
     // Usa ID incremental simples para facilitar UX/depura��o
     const counter = await this.redis.incr('party:counter')
@@ -48,70 +281,106 @@ export class PartyManager {
       id,
       leaderId,
       members: [leaderId],
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      mode,
+      maxSize
     }
-    await this.persistParty(party)
-    return party
+    // O script devolve a party atual caso outra criacao simultanea tenha vencido
+    const result = await this.runScript(CREATE_PARTY_SCRIPT, id, async () => {
+      const current = await this.getPartyIdByPlayer(leaderId)
+      return {
+        keys: [this.playerIndexKey(leaderId), ...(current ? [this.partyKey(current)] : [])],
+        args: [current ?? '', JSON.stringify(party)]
+      }
+    })
+    return { ok: true, party: result.party ?? party }
   }
 
-  async addMember(partyId: string, oidUser: number): Promise<PartyState | null> {
-    const currentPartyId = await this.getPartyIdByPlayer(oidUser)
-    if (currentPartyId) return null
+  /**
+   * Valida se o jogador pode convidar alguem para a propria party (lider e party com vaga)
+   */
+  async checkCanInvite(leaderId: number): Promise<{ ok: boolean; reason?: string; party?: PartyState }> {
+    const partyId = await this.getPartyIdByPlayer(leaderId)
+    if (!partyId) return { ok: false, reason: 'NO_PARTY' }
     const party = await this.getParty(partyId)
-    if (!party) return null
-    if (party.members.includes(oidUser)) return party
-    party.members.push(oidUser)
-    await this.persistParty(party)
-    return party
+    if (!party || party.leaderId !== leaderId) return { ok: false, reason: 'NOT_LEADER' }
+    if (this.isFull(party)) return { ok: false, reason: 'PARTY_FULL' }
+    return { ok: true, party }
+  }
+
+  async addMember(partyId: string, oidUser: number): Promise<{ ok: boolean; reason?: string; party?: PartyState }> {
+    const result = await this.runScript(ADD_MEMBER_SCRIPT, partyId, async () => ({
+      keys: [this.playerIndexKey(oidUser)],
+      args: [String(oidUser), partyId, String(PARTY_MODE_SIZES[DEFAULT_PARTY_MODE])]
+    }))
+    if (result.status !== 'OK' || !result.party) return { ok: false, reason: result.status }
+    return { ok: true, party: result.party }
   }
 
+  /**
+   * Remove o membro. Retorna a party atualizada ou null se ela deixou de existir.
+   */
   async removeMember(partyId: string, oidUser: number): Promise<PartyState | null> {
-    const party = await this.getParty(partyId)
-    if (!party) return null
-    party.members = party.members.filter(id => id !== oidUser)
-    // Remove ��ndice do jogador que saiu
-    await this.redis.del(this.playerIndexKey(oidUser))
-    if (party.members.length === 0) {
-      await this.deleteParty(partyId)
-      return null
-    }
-    if (!party.members.includes(party.leaderId)) {
-      party.leaderId = party.members[0]
-    }
-    await this.persistParty(party)
-    return party
+    const result = await this.runScript(REMOVE_MEMBER_SCRIPT, partyId, async () => ({
+      keys: [this.playerIndexKey(oidUser)],
+      args: [String(oidUser), partyId]
+    }))
+    return result.status === 'OK' ? result.party : null
   }
 
-  async transferLead(partyId: string, newLeaderId: number): Promise<PartyState | null> {
-    const party = await this.getParty(partyId)
-    if (!party) return null
-    if (!party.members.includes(newLeaderId)) return null
-    party.leaderId = newLeaderId
-    await this.persistParty(party)
-    return party
+  /**
+   * Transfere a lideranca. Com `expectedLeaderId`, so transfere se ele ainda for o lider.
+   */
+  async transferLead(
+    partyId: string,
+    newLeaderId: number,
+    expectedLeaderId?: number
+  ): Promise<{ ok: boolean; reason?: string; party?: PartyState }> {
+    const result = await this.runScript(TRANSFER_LEAD_SCRIPT, partyId, async () => ({
+      keys: [],
+      args: [String(newLeaderId), expectedLeaderId ? String(expectedLeaderId) : '']
+    }))
+    if (result.status !== 'OK' || !result.party) return { ok: false, reason: result.status }
+    return { ok: true, party: result.party }
   }
 
-  async deleteParty(partyId: string): Promise<void> {
-    const party = await this.getParty(partyId)
-    const keys = [this.partyKey(partyId)]
-    if (party) {
-      for (const m of party.members) {
-        keys.push(this.playerIndexKey(m))
-      }
-    } else {
-      // fallback: remove índices se existirem
-      // não listamos membros, mas limpamos o hash da party
-    }
-    await this.redis.del(keys)
+  /**
+   * Remove a party, o chat e os indices dos membros. Retorna a party removida (para notificacao).
+   */
+  async deleteParty(partyId: string): Promise<PartyState | null> {
+    const result = await this.runScript(DELETE_PARTY_SCRIPT, partyId, async () => ({ keys: [], args: [partyId] }))
+    return result.party
   }
 
-  private async persistParty(party: PartyState): Promise<void> {
-    const multi = this.redis.multi()
-    multi.set(this.partyKey(party.id), JSON.stringify(party), { EX: 3600 })
-    for (const m of party.members) {
-      multi.set(this.playerIndexKey(m), party.id, { EX: 3600 })
+  /**
+   * Executa um script de mutacao sobre a party (ver convencao dos scripts acima).
+   * Os indices dos membros atuais sao declarados em KEYS; se a party mudar entre a leitura
+   * e o script, as chaves sao relidas e o script executado de novo.
+   */
+  private async runScript(
+    script: string,
+    partyId: string,
+    extra: () => Promise<{ keys: string[]; args: string[] }>
+  ): Promise<{ status: string; party: PartyState | null }> {
+    for (let attempt = 0; attempt < PARTY_SCRIPT_ATTEMPTS; attempt++) {
+      const current = await this.redis.get(this.partyKey(partyId))
+      const members = current ? (JSON.parse(current) as PartyState).members : []
+      const { keys, args } = await extra()
+      const reply = (await this.redis.eval(script, {
+        keys: [
+          this.partyKey(partyId),
+          this.chatKey(partyId),
+          ...keys,
+          ...members.map(member => this.playerIndexKey(member))
+        ],
+        arguments: [PLAYER_INDEX_PREFIX, String(PARTY_TTL_SECONDS), ...args]
+      })) as string[]
+      const [status, raw] = reply
+      if (status === 'RETRY') continue
+      return { status, party: raw ? this.normalize(JSON.parse(raw) as PartyState) : null }
     }
-    await multi.exec()
+    log('warn', `Party ${partyId} alterada durante ${PARTY_SCRIPT_ATTEMPTS} tentativas seguidas`)
+    return { status: 'INTERNAL_ERROR', party: null }
   }
 
   /**
@@ -122,10 +391,284 @@ export class PartyManager {
     const party = await this.getParty(partyId)
     if (!party) return
     const multi = this.redis.multi()
-    multi.expire(this.partyKey(party.id), 3600)
+    multi.expire(this.partyKey(party.id), PARTY_TTL_SECONDS)
+    multi.expire(this.chatKey(party.id), PARTY_TTL_SECONDS)
     for (const m of party.members) {
-      multi.expire(this.playerIndexKey(m), 3600)
+      multi.expire(this.playerIndexKey(m), PARTY_TTL_SECONDS)
+    }
+    await multi.exec()
+  }
+
+  /**
+   * Registra um convite pendente. Falha se ja houver convite entre os dois jogadores.
+   */
+  async createInvite(
+    partyId: string,
+    inviterId: number,
+    inviterName: string,
+    targetId: number
+  ): Promise<{ ok: boolean; reason?: string; invite?: PartyInvite }> {
+    const now = Date.now()
+    const invite: PartyInvite = {
+      partyId,
+      inviterId,
+      inviterName,
+      targetId,
+      createdAt: now,
+      expiresAt: now + PARTY_INVITE_TTL_SECONDS * 1000
+    }
+    const pairKey = this.invitePairKey(inviterId, targetId)
+    const created = await this.redis.set(pairKey, JSON.stringify(invite), {
+      NX: true,
+      EX: PARTY_INVITE_TTL_SECONDS + PARTY_INVITE_GRACE_SECONDS
+    })
+    if (created !== 'OK') {
+      // Convites antigos (flag '1') ou vencidos ainda nao varridos nao bloqueiam um novo convite
+      const existing = await this.getInvite(inviterId, targetId)
+      if (existing) return { ok: false, reason: 'INVITE_ALREADY_SENT' }
+      await this.redis.set(pairKey, JSON.stringify(invite), { EX: PARTY_INVITE_TTL_SECONDS + PARTY_INVITE_GRACE_SECONDS })
+    }
+    const pairId = this.invitePairId(inviterId, targetId)
+    const multi = this.redis.multi()
+    multi.zAdd(INVITE_EXPIRY_KEY, { score: invite.expiresAt, value: pairId })
+    for (const oidUser of [inviterId, targetId]) {
+      multi.sAdd(this.inviteUserIndexKey(oidUser), pairId)
+      multi.expire(this.inviteUserIndexKey(oidUser), PARTY_INVITE_TTL_SECONDS + PARTY_INVITE_GRACE_SECONDS)
     }
     await multi.exec()
+    return { ok: true, invite }
+  }
+
+  /**
+   * Convite pendente entre dois jogadores (em qualquer direcao), ignorando vencidos
+   */
+  async getInvite(a: number, b: number): Promise<PartyInvite | null> {
+    try {
+      const raw = await this.redis.get(this.invitePairKey(a, b))
+      return this.parseInvite(raw)
+    } catch (err) {
+      log('warn', `Falha ao carregar convite (${a}, ${b})`, err)
+      return null
+    }
+  }
+
+  /**
+   * Remove o convite entre dois jogadores. Retorna o convite removido, se ainda valido.
+   */
+  async removeInvite(a: number, b: number): Promise<PartyInvite | null> {
+    try {
+      const pairId = this.invitePairId(a, b)
+      const raw = await this.redis.getDel(this.invitePairKey(a, b))
+      const multi = this.redis.multi()
+      multi.zRem(INVITE_EXPIRY_KEY, pairId)
+      multi.sRem(this.inviteUserIndexKey(a), pairId)
+      multi.sRem(this.inviteUserIndexKey(b), pairId)
+      await multi.exec()
+      return this.parseInvite(raw)
+    } catch (err) {
+      log('warn', `Falha ao remover convite (${a}, ${b})`, err)
+      return null
+    }
+  }
+
+  /**
+   * Convites pendentes recebidos e enviados pelo jogador
+   */
+  async listInvites(oidUser: number): Promise<{ incoming: PartyInvite[]; outgoing: PartyInvite[] }> {
+    const incoming: PartyInvite[] = []
+    const outgoing: PartyInvite[] = []
+    try {
+      const pairIds = await this.redis.sMembers(this.inviteUserIndexKey(oidUser))
+      if (pairIds.length === 0) return { incoming, outgoing }
+
+      const values = await this.redis.mGet(pairIds.map(pairId => `${INVITE_PAIR_PREFIX}${pairId}`))
+      // Pares cujo registro ja expirou saem do indice
+      const stale = pairIds.filter((_, index) => values[index] === null)
+      if (stale.length > 0) {
+        await this.redis.sRem(this.inviteUserIndexKey(oidUser), stale)
+      }
+
+      for (const raw of values) {
+        const invite = this.parseInvite(raw)
+        if (!invite) continue
+        if (invite.targetId === oidUser) incoming.push(invite)
+        else if (invite.inviterId === oidUser) outgoing.push(invite)
+      }
+    } catch (err) {
+      log('warn', `Falha ao listar convites de party de ${oidUser}`, err)
+    }
+    return { incoming, outgoing }
+  }
+
+  /**
+   * Reivindica convites vencidos para notificacao. Seguro com varias instancias:
+   * cada convite e devolvido para apenas uma delas.
+   */
+  async claimExpiredInvites(): Promise<PartyInvite[]> {
+    const expired = await this.redis.zRangeByScore(INVITE_EXPIRY_KEY, '-inf', Date.now(), {
+      LIMIT: { offset: 0, count: PARTY_INVITE_SWEEP_BATCH }
+    })
+    if (expired.length === 0) return []
+
+    const pairIds: string[] = []
+    const keys: string[] = [INVITE_EXPIRY_KEY]
+    const malformed: string[] = []
+    for (const pairId of expired) {
+      const [a, b] = pairId.split(':').map(Number)
+      if (!a || !b) {
+        malformed.push(pairId)
+        continue
+      }
+      pairIds.push(pairId)
+      keys.push(`${INVITE_PAIR_PREFIX}${pairId}`, this.inviteUserIndexKey(a), this.inviteUserIndexKey(b))
+    }
+    if (malformed.length > 0) {
+      await this.redis.zRem(INVITE_EXPIRY_KEY, malformed)
+    }
+    if (pairIds.length === 0) return []
+
+    const reply = (await this.redis.eval(CLAIM_EXPIRED_INVITES_SCRIPT, {
+      keys,
+      arguments: pairIds
+    })) as string[]
+    const invites: PartyInvite[] = []
+    for (const raw of reply) {
+      try {
+        invites.push(JSON.parse(raw) as PartyInvite)
+      } catch {
+        // flag de convite antiga: nada a notificar
+      }
+    }
+    return invites
+  }
+
+  /**
+   * Remove todos os convites (enviados e recebidos) do jogador. Retorna os que ainda eram validos.
+   */
+  async clearInvitesForUser(oidUser: number): Promise<PartyInvite[]> {
+    const removed: PartyInvite[] = []
+    try {
+      const pairIds = await this.redis.sMembers(this.inviteUserIndexKey(oidUser))
+      for (const pairId of pairIds) {
+        const [a, b] = pairId.split(':').map(Number)
+        if (!a || !b) continue
+        const invite = await this.removeInvite(a, b)
+        if (invite) removed.push(invite)
+      }
+      await this.redis.del(this.inviteUserIndexKey(oidUser))
+    } catch (err) {
+      log('warn', `Falha ao limpar convites pendentes de ${oidUser}`, err)
+    }
+    return removed
+  }
+
+  /**
+   * Migracao unica: reconstroi os indices por usuario a partir das chaves de par existentes
+   * (convites criados antes dos indices). Executa em apenas uma instancia.
+   */
+  async migrateInviteIndex(): Promise<number> {
+    const acquired = await this.redis.set(INVITE_INDEX_MIGRATION_KEY, String(Date.now()), { NX: true })
+    if (acquired !== 'OK') return 0
+
+    let migrated = 0
+    try {
+      for await (const keys of this.redis.scanIterator({ MATCH: `${INVITE_PAIR_PREFIX}*`, COUNT: 100 })) {
+        for (const key of keys) {
+          const pairId = String(key).slice(INVITE_PAIR_PREFIX.length)
+          const [a, b] = pairId.split(':').map(Number)
+          if (!a || !b) continue
+
+          const multi = this.redis.multi()
+          for (const oidUser of [a, b]) {
+            multi.sAdd(this.inviteUserIndexKey(oidUser), pairId)
+            multi.expire(this.inviteUserIndexKey(oidUser), PARTY_INVITE_TTL_SECONDS + PARTY_INVITE_GRACE_SECONDS)
+          }
+          await multi.exec()
+          migrated++
+        }
+      }
+    } catch (err) {
+      // Libera a marca para que a proxima instancia tente novamente
+      await this.redis.del(INVITE_INDEX_MIGRATION_KEY)
+      throw err
+    }
+    log('info', `Indice de convites de party migrado (${migrated} pares)`)
+    return migrated
+  }
+
+  /**
+   * Interpreta o registro do convite. Flags antigas ('1') e convites vencidos retornam null.
+   */
+  private parseInvite(raw: string | null): PartyInvite | null {
+    if (!raw) return null
+    try {
+      const invite = JSON.parse(raw) as PartyInvite
+      if (!invite || typeof invite !== 'object' || !invite.partyId) return null
+      return invite.expiresAt > Date.now() ? invite : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Registra uma mensagem no chat da party (apenas membros).
+   * Mantem as ultimas PARTY_CHAT_HISTORY_SIZE mensagens com o mesmo TTL da party.
+   */
+  async sendChatMessage(
+    partyId: string,
+    senderId: number,
+    senderName: string,
+    rawText: string
+  ): Promise<{ ok: boolean; reason?: string; message?: PartyChatMessage; party?: PartyState }> {
+    const text = typeof rawText === 'string' ? rawText.trim() : ''
+    if (!text) return { ok: false, reason: 'EMPTY_MESSAGE' }
+    if (text.length > PARTY_CHAT_MAX_LENGTH) return { ok: false, reason: 'MESSAGE_TOO_LONG' }
+
+    const party = await this.getParty(partyId)
+    if (!party) return { ok: false, reason: 'PARTY_NOT_FOUND' }
+    if (!party.members.includes(senderId)) return { ok: false, reason: 'NOT_MEMBER' }
+
+    const message: PartyChatMessage = {
+      id: uuidv4(),
+      partyId,
+      senderId,
+      senderName,
+      text,
+      createdAt: Date.now()
+    }
+
+    try {
+      const key = this.chatKey(partyId)
+      const multi = this.redis.multi()
+      multi.rPush(key, JSON.stringify(message))
+      multi.lTrim(key, -PARTY_CHAT_HISTORY_SIZE, -1)
+      multi.expire(key, PARTY_TTL_SECONDS)
+      await multi.exec()
+      return { ok: true, message, party }
+    } catch (err) {
+      log('warn', `Falha ao gravar chat da party ${partyId}`, err)
+      return { ok: false, reason: 'INTERNAL_ERROR' }
+    }
+  }
+
+  /**
+   * Ultimas mensagens do chat da party, em ordem cronologica
+   */
+  async getChatHistory(partyId: string): Promise<PartyChatMessage[]> {
+    try {
+      const raw = await this.redis.lRange(this.chatKey(partyId), 0, -1)
+      const messages: PartyChatMessage[] = []
+      for (const item of raw) {
+        try {
+          messages.push(JSON.parse(item) as PartyChatMessage)
+        } catch {
+          // entrada corrompida: ignorada
+        }
+      }
+      return messages
+    } catch (err) {
+      log('warn', `Falha ao carregar chat da party ${partyId}`, err)
+      return []
+    }
   }
 }
@@ -0,0 +1,96 @@
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import { SETTABLE_PRESENCE_STATUSES } from '../types/protocol'
+
+/**
+ * Status rico de presenca exibido para os amigos
+ */
+export type PresenceStatus = 'ONLINE' | 'IN_LOBBY' | 'IN_MATCH' | 'IN_QUEUE' | 'AWAY' | 'OFFLINE'
+
+export interface PresenceInfo {
+  online: boolean
+  status: PresenceStatus
+  lastSeen: number | null
+}
+
+const PRESENCE_TTL_SECONDS = 60
+const LAST_SEEN_TTL_SECONDS = 30 * 24 * 3600 // 30 dias
+
+/**
+ * PresenceManager - Presenca dos jogadores no Redis
+ *
+ * - ws:presence:{oidUser}  '1' enquanto houver conexao (TTL renovado pelo heartbeat)
+ * - ws:status:{oidUser}    status rico (IN_LOBBY, IN_MATCH...), mesmo TTL da presenca
+ * - ws:lastseen:{oidUser}  timestamp da ultima atividade
+ */
+export class PresenceManager {
+  private redis = getRedisClient()
+
+  private presenceKey(oidUser: number) { return `ws:presence:${oidUser}` }
+  private statusKey(oidUser: number) { return `ws:status:${oidUser}` }
+  private lastSeenKey(oidUser: number) { return `ws:lastseen:${oidUser}` }
+
+  static isSettableStatus(status: unknown): status is PresenceStatus {
+    return typeof status === 'string' && SETTABLE_PRESENCE_STATUSES.includes(status as PresenceStatus)
+  }
+
+  /**
+   * Marca o jogador como online (AUTH) ou renova a presenca (heartbeat)
+   */
+  async touch(oidUser: number): Promise<void> {
+    const multi = this.redis.multi()
+    multi.setEx(this.presenceKey(oidUser), PRESENCE_TTL_SECONDS, '1')
+    multi.set(this.statusKey(oidUser), 'ONLINE', { NX: true, EX: PRESENCE_TTL_SECONDS })
+    multi.expire(this.statusKey(oidUser), PRESENCE_TTL_SECONDS)
+    multi.setEx(this.lastSeenKey(oidUser), LAST_SEEN_TTL_SECONDS, String(Date.now()))
+    await multi.exec()
+  }
+
+  /**
+   * Marca o jogador como offline (ultima conexao fechada)
+   */
+  async markOffline(oidUser: number): Promise<void> {
+    const multi = this.redis.multi()
+    multi.del([this.presenceKey(oidUser), this.statusKey(oidUser)])
+    multi.setEx(this.lastSeenKey(oidUser), LAST_SEEN_TTL_SECONDS, String(Date.now()))
+    await multi.exec()
+  }
+
+  /**
+   * Define o status rico. Retorna true se o status mudou.
+   */
+  async setStatus(oidUser: number, status: PresenceStatus): Promise<boolean> {
+    const previous = await this.redis.set(this.statusKey(oidUser), status, { EX: PRESENCE_TTL_SECONDS, GET: true })
+    return previous !== status
+  }
+
+  async getPresence(oidUser: number): Promise<PresenceInfo> {
+    const map = await this.getPresenceMany([oidUser])
+    return map.get(oidUser) ?? { online: false, status: 'OFFLINE', lastSeen: null }
+  }
+
+  /**
+   * Presenca de varios jogadores em uma unica ida ao Redis
+   */
+  async getPresenceMany(oidUsers: number[]): Promise<Map<number, PresenceInfo>> {
+    const result = new Map<number, PresenceInfo>()
+    if (oidUsers.length === 0) return result
+
+    try {
+      const keys = oidUsers.flatMap(id => [this.presenceKey(id), this.statusKey(id), this.lastSeenKey(id)])
+      const values = await this.redis.mGet(keys)
+      oidUsers.forEach((id, index) => {
+        const [presence, status, lastSeen] = values.slice(index * 3, index * 3 + 3)
+        const online = presence !== null
+        result.set(id, {
+          online,
+          status: online ? ((status as PresenceStatus | null) ?? 'ONLINE') : 'OFFLINE',
+          lastSeen: lastSeen ? Number(lastSeen) : null
+        })
+      })
+    } catch (err) {
+      log('warn', 'Falha ao buscar presenca', err)
+    }
+    return result
+  }
+}
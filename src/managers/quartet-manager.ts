@@ -299,6 +299,27 @@ export class QuartetManager {
     }
   }
 
+  /**
+   * Remove os convites pendentes entre dois jogadores, em qualquer direcao (ex.: bloqueio).
+   * Nao lanca erro; retorna quantos convites foram removidos.
+   */
+  async removePendingBetween(userA: number, userB: number): Promise<number> {
+    try {
+      const nowForDb = toBrasiliaForDb(new Date())
+      return await prismaRanked.$executeRaw`
+        UPDATE BST_QuartetInvites
+        SET status = 'REMOVED', updatedAt = ${nowForDb}
+        WHERE status = 'PENDING' AND (
+          (requesterOidUser = ${userA} AND targetOidUser = ${userB}) OR
+          (requesterOidUser = ${userB} AND targetOidUser = ${userA})
+        )
+      `
+    } catch (err) {
+      log('warn', `Falha ao remover convites de quarteto pendentes (${userA}, ${userB})`, err)
+      return 0
+    }
+  }
+
   /**
    * Lista todos os convites aceitos (membros do quarteto potencial)
    * IMPORTANTE: Prioriza quartetos criados em BST_EventQuartet. Se não houver, retorna convites aceitos.
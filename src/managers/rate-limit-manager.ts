@@ -0,0 +1,204 @@
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+
+/**
+ * Balde de tokens: ate `capacity` mensagens em rajada, recarregando `refillPerSecond` por segundo
+ */
+export interface TokenBucketConfig {
+  capacity: number
+  refillPerSecond: number
+}
+
+/**
+ * Limites de um tipo de mensagem por conexao (socket) e por jogador (oidUser)
+ */
+export interface RateLimitRule {
+  socket?: TokenBucketConfig
+  user?: TokenBucketConfig
+}
+
+export interface RateLimitSubject {
+  socketId: string
+  oidUser?: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  retryAfterMs: number
+}
+
+// Limite aplicado a qualquer tipo sem regra propria
+const DEFAULT_RULE: RateLimitRule = {
+  socket: { capacity: 30, refillPerSecond: 10 },
+  user: { capacity: 60, refillPerSecond: 20 }
+}
+
+// Mensagens que disparam consultas pesadas nos dois bancos recebem limites mais restritos
+const INVITE_RULE: RateLimitRule = {
+  socket: { capacity: 5, refillPerSecond: 0.2 },
+  user: { capacity: 10, refillPerSecond: 0.2 }
+}
+
+const DEFAULT_RULES: Record<string, RateLimitRule> = {
+  AUTH: { socket: { capacity: 5, refillPerSecond: 0.1 } },
+  FRIEND_SEND: INVITE_RULE,
+  QUARTET_INVITE_SEND: INVITE_RULE,
+  TOURNAMENT_INVITE_SEND: INVITE_RULE,
+  PARTY_INVITE: {
+    socket: { capacity: 10, refillPerSecond: 0.5 },
+    user: { capacity: 10, refillPerSecond: 0.5 }
+  },
+  // Autocomplete: rajadas curtas enquanto o jogador digita
+  USER_SEARCH: {
+    socket: { capacity: 5, refillPerSecond: 2 },
+    user: { capacity: 10, refillPerSecond: 2 }
+  }
+}
+
+// Apos N mensagens bloqueadas dentro da janela a conexao e derrubada
+const MAX_VIOLATIONS = Number(process.env.WS_RATE_LIMIT_MAX_VIOLATIONS) || 20
+const VIOLATION_WINDOW_SECONDS = Number(process.env.WS_RATE_LIMIT_VIOLATION_WINDOW_SECONDS) || 60
+
+const BUCKET_PREFIX = 'ratelimit:'
+
+/*
+ * Consome um token de cada balde em uma unica operacao: se algum estiver vazio nenhum e
+ * consumido e o script devolve quantos ms faltam para o proximo token. Usa o relogio do
+ * Redis para que todas as instancias compartilhem a mesma referencia.
+ *
+ * KEYS[i] = balde | ARGV[2i-1] = capacidade, ARGV[2i] = recarga por segundo. Retorno: ms (0 = liberado).
+ */
+const CONSUME_BUCKETS_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local retry = 0
+local tokens = {}
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'ts')
+  local current = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  current = math.min(capacity, current + math.max(0, now - ts) / 1000 * rate)
+  tokens[i] = current
+  if current < 1 then
+    local wait = math.ceil((1 - current) / rate * 1000)
+    if wait > retry then retry = wait end
+  end
+end
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local current = tokens[i]
+  if retry == 0 then current = current - 1 end
+  redis.call('HSET', key, 'tokens', tostring(current), 'ts', tostring(now))
+  redis.call('PEXPIRE', key, math.ceil(capacity / rate * 1000) + 1000)
+end
+return retry
+`
+
+function isBucket(value: any): value is TokenBucketConfig {
+  return (
+    !!value &&
+    Number.isFinite(value.capacity) &&
+    value.capacity >= 1 &&
+    Number.isFinite(value.refillPerSecond) &&
+    value.refillPerSecond > 0
+  )
+}
+
+/**
+ * Le WS_RATE_LIMITS (JSON { TIPO: { socket?, user? } }) sobre os limites padrao.
+ * A chave "*" substitui o limite padrao.
+ */
+function loadRules(): { rules: Record<string, RateLimitRule>; fallback: RateLimitRule } {
+  const rules: Record<string, RateLimitRule> = { ...DEFAULT_RULES }
+  let fallback = DEFAULT_RULE
+
+  const raw = process.env.WS_RATE_LIMITS
+  if (!raw) return { rules, fallback }
+
+  try {
+    const overrides = JSON.parse(raw) as Record<string, any>
+    for (const [type, rule] of Object.entries(overrides)) {
+      const parsed: RateLimitRule = {}
+      if (isBucket(rule?.socket)) parsed.socket = rule.socket
+      if (isBucket(rule?.user)) parsed.user = rule.user
+      if (type === '*') fallback = parsed
+      else rules[type] = parsed
+    }
+  } catch (error) {
+    log('warn', 'WS_RATE_LIMITS invalido, usando limites padrao', error)
+  }
+
+  return { rules, fallback }
+}
+
+/**
+ * RateLimitManager - Limite de mensagens recebidas por tipo, por conexao e por jogador
+ *
+ * Os baldes ficam no Redis: o limite por jogador vale entre reconexoes e entre instancias.
+ */
+export class RateLimitManager {
+  private redis = getRedisClient()
+  private config = loadRules()
+
+  private bucketKey(scope: 'socket' | 'user', id: string | number, type: string) {
+    return `${BUCKET_PREFIX}${scope}:${id}:${type}`
+  }
+
+  private violationKey(subject: RateLimitSubject) {
+    return subject.oidUser
+      ? `${BUCKET_PREFIX}violations:user:${subject.oidUser}`
+      : `${BUCKET_PREFIX}violations:socket:${subject.socketId}`
+  }
+
+  private ruleFor(type: string): RateLimitRule {
+    return this.config.rules[type] ?? this.config.fallback
+  }
+
+  /**
+   * Consome uma mensagem do tipo informado. Em falha do Redis a mensagem e liberada.
+   */
+  async consume(subject: RateLimitSubject, type: string): Promise<RateLimitResult> {
+    const rule = this.ruleFor(type)
+    const keys: string[] = []
+    const args: string[] = []
+
+    if (rule.socket) {
+      keys.push(this.bucketKey('socket', subject.socketId, type))
+      args.push(String(rule.socket.capacity), String(rule.socket.refillPerSecond))
+    }
+    if (rule.user && subject.oidUser) {
+      keys.push(this.bucketKey('user', subject.oidUser, type))
+      args.push(String(rule.user.capacity), String(rule.user.refillPerSecond))
+    }
+    if (keys.length === 0) return { allowed: true, retryAfterMs: 0 }
+
+    try {
+      const retryAfterMs = Number(await this.redis.eval(CONSUME_BUCKETS_SCRIPT, { keys, arguments: args }))
+      return { allowed: retryAfterMs === 0, retryAfterMs }
+    } catch (error) {
+      log('error', `Erro ao consumir rate limit de ${type}`, error)
+      return { allowed: true, retryAfterMs: 0 }
+    }
+  }
+
+  /**
+   * Registra uma mensagem bloqueada. Retorna true quando o limite de infracoes da janela
+   * foi atingido e a conexao deve ser encerrada.
+   */
+  async recordViolation(subject: RateLimitSubject): Promise<boolean> {
+    const key = this.violationKey(subject)
+    try {
+      const count = await this.redis.incr(key)
+      if (count === 1) {
+        await this.redis.expire(key, VIOLATION_WINDOW_SECONDS)
+      }
+      return count >= MAX_VIOLATIONS
+    } catch (error) {
+      log('error', 'Erro ao registrar infracao de rate limit', error)
+      return false
+    }
+  }
+}
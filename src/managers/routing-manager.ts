@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import type { OutboundMessage } from '../types/protocol'
+
+/**
+ * Mensagem trafegada entre instancias pelo canal social:instance:{instanceId}
+ * - DELIVER: entrega `message` aos sockets locais de `targetOidUser`
+ * - REPLACE: fechar conexoes locais do usuario. Com `targetTabId`, fecha apenas aquela aba
+ *   (limite de sessoes); sem ele, fecha todas (tab replacement classico).
+ */
+export interface RoutedEnvelope {
+  kind: 'DELIVER' | 'REPLACE'
+  targetOidUser: number
+  originInstanceId: string
+  message?: OutboundMessage
+  tabId?: string
+  targetTabId?: string
+  targetConnectionId?: string
+  reason?: string
+}
+
+/**
+ * Sessao (socket) de um usuario registrada globalmente, indexada por tabId
+ */
+export interface SessionInfo {
+  tabId: string
+  instanceId: string
+  connectionId: string
+  connectedAt: number
+}
+
+const ROUTE_TTL_SECONDS = 60
+
+// Remove a instancia do hash e retorna quantas instancias ainda possuem o usuario
+const UNREGISTER_SCRIPT = `
+redis.call('HDEL', KEYS[1], ARGV[1])
+return redis.call('HLEN', KEYS[1])
+`
+
+// Remove a sessao apenas se ela ainda pertence a mesma conexao (a aba pode ter reconectado)
+const REMOVE_SESSION_SCRIPT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return 0 end
+local ok, session = pcall(cjson.decode, raw)
+if ok and session.connectionId == ARGV[2] then
+  return redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return 0
+`
+
+/**
+ * RoutingManager - Roteamento de mensagens entre instancias do servidor
+ *
+ * Cada instancia registra no Redis quais oidUsers estao conectados nela
+ * (hash ws:route:{oidUser} -> { instanceId: timestamp }) e escuta o proprio canal
+ * social:instance:{instanceId}. Assim, sendToPlayer consegue entregar mensagens para
+ * jogadores conectados em outra maquina do Fly.
+ *
+ * As sessoes individuais (uma por aba/dispositivo) ficam em ws:sessions:{oidUser}
+ * -> { tabId: SessionInfo }, usadas para aplicar o limite de conexoes por usuario.
+ */
+export class RoutingManager {
+  private redis = getRedisClient()
+  readonly instanceId: string = process.env.FLY_MACHINE_ID || process.env.INSTANCE_ID || uuidv4()
+
+  private routeKey(oidUser: number) { return `ws:route:${oidUser}` }
+  private sessionsKey(oidUser: number) { return `ws:sessions:${oidUser}` }
+  private instanceChannel(instanceId: string) { return `social:instance:${instanceId}` }
+
+  /**
+   * Canal que esta instancia deve assinar
+   */
+  get channel(): string {
+    return this.instanceChannel(this.instanceId)
+  }
+
+  /**
+   * Registra (ou renova) esta instancia como dona de uma conexao do usuario
+   */
+  async register(oidUser: number): Promise<void> {
+    const key = this.routeKey(oidUser)
+    const multi = this.redis.multi()
+    multi.hSet(key, this.instanceId, String(Date.now()))
+    multi.expire(key, ROUTE_TTL_SECONDS)
+    multi.expire(this.sessionsKey(oidUser), ROUTE_TTL_SECONDS)
+    await multi.exec()
+  }
+
+  /**
+   * Remove esta instancia do registro do usuario.
+   * Retorna quantas instancias ainda possuem conexoes do usuario (0 = offline).
+   */
+  async unregister(oidUser: number): Promise<number> {
+    const remaining = await this.redis.eval(UNREGISTER_SCRIPT, {
+      keys: [this.routeKey(oidUser)],
+      arguments: [this.instanceId]
+    })
+    return Number(remaining) || 0
+  }
+
+  /**
+   * Instancias que possuem o usuario. Entradas nao renovadas pelo heartbeat
+   * (ex.: maquina que caiu) sao ignoradas.
+   */
+  async getInstances(oidUser: number): Promise<string[]> {
+    try {
+      const entries = await this.redis.hGetAll(this.routeKey(oidUser))
+      const minSeenAt = Date.now() - ROUTE_TTL_SECONDS * 1000
+      return Object.entries(entries)
+        .filter(([, seenAt]) => Number(seenAt) >= minSeenAt)
+        .map(([instanceId]) => instanceId)
+    } catch (err) {
+      log('warn', `Falha ao buscar rota de ${oidUser}`, err)
+      return []
+    }
+  }
+
+  /**
+   * Usuario possui ao menos uma conexao ativa em alguma instancia
+   */
+  async isOnline(oidUser: number): Promise<boolean> {
+    return (await this.getInstances(oidUser)).length > 0
+  }
+
+  async addSession(oidUser: number, session: Omit<SessionInfo, 'instanceId'>): Promise<void> {
+    const key = this.sessionsKey(oidUser)
+    const multi = this.redis.multi()
+    multi.hSet(key, session.tabId, JSON.stringify({ ...session, instanceId: this.instanceId }))
+    multi.expire(key, ROUTE_TTL_SECONDS)
+    await multi.exec()
+  }
+
+  async removeSession(oidUser: number, tabId: string, connectionId: string): Promise<void> {
+    await this.redis.eval(REMOVE_SESSION_SCRIPT, {
+      keys: [this.sessionsKey(oidUser)],
+      arguments: [tabId, connectionId]
+    })
+  }
+
+  /**
+   * Sessoes ativas do usuario (em qualquer instancia viva), da mais antiga para a mais nova
+   */
+  async listSessions(oidUser: number): Promise<SessionInfo[]> {
+    try {
+      const [entries, instances] = await Promise.all([
+        this.redis.hGetAll(this.sessionsKey(oidUser)),
+        this.getInstances(oidUser)
+      ])
+      const live = new Set(instances)
+      const sessions: SessionInfo[] = []
+      for (const raw of Object.values(entries)) {
+        try {
+          const session = JSON.parse(raw) as SessionInfo
+          if (live.has(session.instanceId)) sessions.push(session)
+        } catch {
+          // entrada corrompida: ignorada
+        }
+      }
+      return sessions.sort((a, b) => a.connectedAt - b.connectedAt)
+    } catch (err) {
+      log('warn', `Falha ao listar sessoes de ${oidUser}`, err)
+      return []
+    }
+  }
+
+  /**
+   * Encaminha uma mensagem para as OUTRAS instancias que possuem o usuario.
+   * A entrega local e responsabilidade do chamador.
+   */
+  async route(oidUser: number, message: OutboundMessage): Promise<void> {
+    await this.publishToOwners(oidUser, { kind: 'DELIVER', message })
+  }
+
+  /**
+   * Avisa as outras instancias que o usuario autenticou aqui (tab replacement entre maquinas)
+   */
+  async announceReplacement(oidUser: number, tabId?: string): Promise<void> {
+    await this.publishToOwners(oidUser, { kind: 'REPLACE', tabId })
+  }
+
+  /**
+   * Pede a instancia dona da sessao que feche apenas aquela aba
+   */
+  async replaceRemoteSession(oidUser: number, session: SessionInfo, reason: string): Promise<void> {
+    await this.publish(session.instanceId, {
+      kind: 'REPLACE',
+      targetOidUser: oidUser,
+      originInstanceId: this.instanceId,
+      targetTabId: session.tabId,
+      targetConnectionId: session.connectionId,
+      reason
+    })
+  }
+
+  private async publishToOwners(
+    oidUser: number,
+    envelope: Pick<RoutedEnvelope, 'kind' | 'message' | 'tabId'>
+  ): Promise<void> {
+    const instances = await this.getInstances(oidUser)
+    const remote = instances.filter(id => id !== this.instanceId)
+    if (remote.length === 0) return
+
+    await Promise.all(
+      remote.map(id =>
+        this.publish(id, { ...envelope, targetOidUser: oidUser, originInstanceId: this.instanceId })
+      )
+    )
+  }
+
+  private async publish(instanceId: string, envelope: RoutedEnvelope): Promise<void> {
+    try {
+      await this.redis.publish(this.instanceChannel(instanceId), JSON.stringify(envelope))
+    } catch (err) {
+      log('warn', `Falha ao publicar para instancia ${instanceId}`, err)
+    }
+  }
+}
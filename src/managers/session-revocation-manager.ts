@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+
+/**
+ * Pedido de logout forcado. Sem sessionId todas as sessoes do jogador sao encerradas.
+ */
+export interface SessionRevocation {
+  oidUser: number
+  reason: string
+  sessionId?: string
+  revokedAt: number
+}
+
+const SOCIAL_EVENTS_CHANNEL = 'social:events'
+const TOKEN_KEY_PREFIX = 'ws:token:'
+const REVOKED_USER_PREFIX = 'ws:revoked:user:'
+const REVOKED_SESSION_PREFIX = 'ws:revoked:sid:'
+
+// Os marcadores precisam viver pelo menos tanto quanto o token assinado mais longo
+const REVOCATION_TTL_SECONDS = Number(process.env.WS_TOKEN_MAX_TTL_SECONDS) || 24 * 3600
+
+/**
+ * SessionRevocationManager - Logout forcado (troca de senha, ban, logout em outro lugar)
+ *
+ * - Token legado: ws:token:{oidUser} e apagado
+ * - Token assinado: grava "revogado antes de" por jogador (tokens com iat anterior sao recusados)
+ *   ou a sessao (sid) especifica
+ * - O SESSION_REVOKE em social:events (admin ou site) faz cada instancia invalidar os tokens
+ *   (idempotente) e depois fechar os seus sockets
+ */
+export class SessionRevocationManager {
+  private redis = getRedisClient()
+
+  private userKey(oidUser: number) { return `${REVOKED_USER_PREFIX}${oidUser}` }
+  private sessionKey(sessionId: string) { return `${REVOKED_SESSION_PREFIX}${sessionId}` }
+
+  /**
+   * Publica SESSION_REVOKE para todas as instancias
+   */
+  async publish(revocation: SessionRevocation): Promise<void> {
+    await this.redis.publish(SOCIAL_EVENTS_CHANNEL, JSON.stringify({ type: 'SESSION_REVOKE', payload: revocation, eventId: uuidv4() }))
+  }
+
+  /**
+   * Invalida os tokens do jogador para que o cliente nao reconecte silenciosamente
+   */
+  async invalidate(revocation: SessionRevocation): Promise<void> {
+    const { oidUser, sessionId, revokedAt } = revocation
+    const multi = this.redis.multi().del(`${TOKEN_KEY_PREFIX}${oidUser}`)
+    if (sessionId) {
+      multi.set(this.sessionKey(sessionId), String(revokedAt), { EX: REVOCATION_TTL_SECONDS })
+    } else {
+      multi.set(this.userKey(oidUser), String(revokedAt), { EX: REVOCATION_TTL_SECONDS })
+    }
+    await multi.exec()
+    log('info', `Tokens invalidados para ${oidUser}${sessionId ? ` (sessao ${sessionId})` : ''}: ${revocation.reason}`)
+  }
+
+  /**
+   * Verifica se um token assinado foi revogado depois de emitido
+   */
+  async isRevoked(oidUser: number, sessionId: string, issuedAt?: number): Promise<boolean> {
+    const [revokedBefore, sessionRevoked] = await this.redis.mGet([this.userKey(oidUser), this.sessionKey(sessionId)])
+    if (sessionRevoked) return true
+    if (!revokedBefore) return false
+    // Tokens sem iat nao podem provar que foram emitidos depois da revogacao. iat tem precisao
+    // de segundos: um token emitido no mesmo segundo da revogacao (novo login) ainda e aceito.
+    return !issuedAt || issuedAt < Math.floor(Number(revokedBefore) / 1000) * 1000
+  }
+}
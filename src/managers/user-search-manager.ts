@@ -0,0 +1,123 @@
+import { prismaGame } from '../database/prisma'
+import { getRedisClient } from '../database/redis-client'
+import { log } from '../utils/logger'
+import { withTimeout } from '../lib/with-timeout'
+import { USER_SEARCH_MIN_LENGTH, USER_SEARCH_MAX_LENGTH } from '../types/protocol'
+import { FriendManager } from './friend-manager'
+import { PresenceManager } from './presence-manager'
+
+/**
+ * Resultado de USER_SEARCH (autocomplete dos convites)
+ */
+export interface UserSearchResult {
+  oidUser: number
+  nickname: string
+  clanId: number | null
+  online: boolean
+}
+
+// Trecho/SOUNDEX varrem a tabela inteira; com 2 caracteres quase tudo casa
+const USER_SEARCH_FUZZY_MIN_LENGTH = 3
+const USER_SEARCH_DEFAULT_LIMIT = 10
+const USER_SEARCH_MAX_LIMIT = 20
+
+// O mesmo prefixo e digitado por varios jogadores; a presenca e sempre consultada na hora
+const USER_SEARCH_CACHE_TTL_SECONDS = 30
+
+type SearchRow = { oidUser: number; nickname: string; clanId: number | null }
+
+/**
+ * Escapa os curingas do LIKE (%, _ e [) digitados pelo jogador
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[[%_]/g, (char) => `[${char}]`)
+}
+
+/**
+ * UserSearchManager - Busca de jogadores por NickName (prefixo, depois trecho/aproximado)
+ */
+export class UserSearchManager {
+  private redis = getRedisClient()
+  private presenceManager = new PresenceManager()
+  private friendManager = new FriendManager()
+
+  private cacheKey(query: string, limit: number) { return `users:search:${limit}:${query.toLowerCase()}` }
+
+  /**
+   * Busca sem diferenciar maiusculas (collation do banco). Prefixos vem primeiro (nicks mais curtos
+   * antes); a partir de 3 caracteres, se faltarem resultados, completa com nicks que contem o termo
+   * ou soam parecido (DIFFERENCE/SOUNDEX). O cache e compartilhado: o proprio jogador e quem tem
+   * bloqueio com ele (em qualquer direcao) sao removidos depois.
+   */
+  async search(rawQuery: string, options: { limit?: number; searcherOidUser?: number } = {}): Promise<UserSearchResult[]> {
+    const query = rawQuery.trim()
+    if (query.length < USER_SEARCH_MIN_LENGTH || query.length > USER_SEARCH_MAX_LENGTH) return []
+    const limit = Math.min(Math.max(1, options.limit ?? USER_SEARCH_DEFAULT_LIMIT), USER_SEARCH_MAX_LIMIT)
+    const { searcherOidUser } = options
+
+    const [cached, blockedIds] = await Promise.all([
+      this.loadCached(query, limit),
+      searcherOidUser ? this.friendManager.listBlockedIds(searcherOidUser) : Promise.resolve([])
+    ])
+    const rows = cached
+      .filter((row) => row.oidUser !== searcherOidUser && !blockedIds.includes(row.oidUser))
+      .slice(0, limit)
+    const presence = await this.presenceManager.getPresenceMany(rows.map((row) => row.oidUser))
+    return rows.map((row) => ({ ...row, online: presence.get(row.oidUser)?.online ?? false }))
+  }
+
+  private async loadCached(query: string, limit: number): Promise<SearchRow[]> {
+    const key = this.cacheKey(query, limit)
+    try {
+      const cached = await this.redis.get(key)
+      if (cached) return JSON.parse(cached) as SearchRow[]
+    } catch (err) {
+      log('warn', 'Falha ao ler cache da busca de jogadores', err)
+    }
+
+    const rows = await this.query(query, limit)
+    await this.redis.set(key, JSON.stringify(rows), { EX: USER_SEARCH_CACHE_TTL_SECONDS }).catch(() => {})
+    return rows
+  }
+
+  private async query(query: string, limit: number): Promise<SearchRow[]> {
+    const escaped = escapeLike(query)
+    // Um a mais para compensar o proprio jogador, removido depois
+    const take = limit + 1
+
+    const prefix = await withTimeout<SearchRow[]>(
+      prismaGame.$queryRaw<SearchRow[]>`
+        SELECT TOP (${take}) u.oiduser AS oidUser, u.NickName AS nickname, m.oidGuild AS clanId
+        FROM CBT_User u
+        LEFT JOIN NX_GuildMaster.dbo.gdt_Member m ON m.oidUser = u.oiduser
+        WHERE u.NickName LIKE ${escaped + '%'}
+        ORDER BY LEN(u.NickName), u.NickName
+      `
+    )
+    if (prefix.length >= take || query.length < USER_SEARCH_FUZZY_MIN_LENGTH) return prefix.map(this.normalize)
+
+    const seen = prefix.map((row) => Number(row.oidUser))
+    const fuzzy = await withTimeout<SearchRow[]>(
+      prismaGame.$queryRaw<SearchRow[]>`
+        SELECT TOP (${take - prefix.length}) u.oiduser AS oidUser, u.NickName AS nickname, m.oidGuild AS clanId
+        FROM CBT_User u
+        LEFT JOIN NX_GuildMaster.dbo.gdt_Member m ON m.oidUser = u.oiduser
+        WHERE (u.NickName LIKE ${'%' + escaped + '%'} OR DIFFERENCE(u.NickName, ${query}) = 4)
+          AND u.NickName NOT LIKE ${escaped + '%'}
+        ORDER BY
+          CASE WHEN u.NickName LIKE ${'%' + escaped + '%'} THEN 0 ELSE 1 END,
+          LEN(u.NickName)
+      `,
+      8000
+    )
+    return [...prefix, ...fuzzy.filter((row) => !seen.includes(Number(row.oidUser)))].map(this.normalize)
+  }
+
+  private normalize(row: SearchRow): SearchRow {
+    return {
+      oidUser: Number(row.oidUser),
+      nickname: row.nickname,
+      clanId: row.clanId === null || row.clanId === undefined ? null : Number(row.clanId)
+    }
+  }
+}
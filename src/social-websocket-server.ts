@@ -1,16 +1,44 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import express from 'express';
+import { timingSafeEqual } from 'crypto';
 import { createServer, Server as HttpServer } from 'http';
 import cors from 'cors';
 import { FriendManager } from './managers/friend-manager';
-import { PartyManager } from './managers/party-manager';
+import { PartyManager, PartyInvite, PartyState } from './managers/party-manager';
 import { QuartetManager } from './managers/quartet-manager';
 import { TournamentInviteManager } from './managers/tournament-invite-manager';
 import { PaymentManager } from './managers/payment-manager';
+import { RoutingManager, RoutedEnvelope, SessionInfo } from './managers/routing-manager';
+import { InboxManager, BroadcastEvent } from './managers/inbox-manager';
+import { PresenceManager } from './managers/presence-manager';
+import { DirectMessageManager } from './managers/direct-message-manager';
+import { RateLimitManager } from './managers/rate-limit-manager';
+import { SessionRevocation, SessionRevocationManager } from './managers/session-revocation-manager';
+import { ModerationManager } from './managers/moderation-manager';
+import { JobLockManager } from './managers/job-lock-manager';
+import { FriendSuggestionManager } from './managers/friend-suggestion-manager';
+import { FriendPreferenceManager } from './managers/friend-preference-manager';
+import { UserSearchManager } from './managers/user-search-manager';
 import { prismaGame } from './database/prisma';
 import { log } from './utils/logger';
 import { toBrasiliaISOWithOffset } from './lib/time';
 import { getRedisClient } from './database/redis-client';
+import { parseInboundMessage } from './lib/message-validation';
+import { describeError } from './lib/error-messages';
+import { isSignedToken, verifyAuthToken } from './lib/auth-token';
+import type {
+  ErrorMessageType,
+  ErrorPayloadExtra,
+  InboundMessage,
+  InboundMessageType,
+  InboundPayload,
+  OutboundMessage,
+  OutboundPayloads,
+  TargetNicknamePayload,
+  TargetRefPayload
+} from './types/protocol';
+import { USER_SEARCH_MIN_LENGTH } from './types/protocol';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Interface para WebSocket autenticado
@@ -19,13 +47,65 @@ interface AuthenticatedWebSocket extends WebSocket {
   oidUser?: number;
   username?: string;
   isAlive?: boolean;
+  authTimer?: NodeJS.Timeout;
   tabId?: string;
+  socketId?: string;
+  connectionId?: string;
+  connectedAt?: number;
+  multiSession?: boolean;
+  // Dados do token assinado (ausentes em tokens legados)
+  tokenExpiresAt?: number;
+  tokenSessionId?: string;
+  scopes?: string[];
+  tokenExpiryWarned?: boolean;
 }
 
-interface WSMessage {
-  type: string;
-  payload?: any;
-}
+/**
+ * Socket que ja passou pelo AUTH (garantido pelo gate de handleMessage)
+ */
+type SessionWebSocket = AuthenticatedWebSocket & { oidUser: number };
+
+/**
+ * Resultado de um handler: sem retorno (ou ok) gera ACK; falha gera NACK com o codigo do erro
+ */
+type HandlerResult = { ok: true; data?: unknown } | { ok: false; reason: string; message: string };
+
+// Mensagens aceitas antes do AUTH; as demais recebem NOT_AUTHENTICATED
+const PRE_AUTH_MESSAGE_TYPES: ReadonlySet<InboundMessageType> = new Set<InboundMessageType>(['AUTH', 'HEARTBEAT']);
+
+// Mensagens bloqueadas para jogadores silenciados (mute) e o erro de dominio de cada uma
+const MUTE_RESTRICTED_TYPES: Partial<Record<InboundMessageType, ErrorMessageType>> = {
+  FRIEND_SEND: 'FRIEND_ERROR',
+  QUARTET_INVITE_SEND: 'QUARTET_ERROR',
+  PARTY_INVITE: 'PARTY_ERROR',
+  PARTY_CHAT_SEND: 'PARTY_ERROR',
+  DM_SEND: 'DM_ERROR',
+  DM_TYPING: 'DM_ERROR',
+  TOURNAMENT_INVITE_SEND: 'TOURNAMENT_INVITE_ERROR'
+};
+
+// Conexoes que nao enviam AUTH dentro do prazo sao encerradas
+const AUTH_TIMEOUT_MS = (Number(process.env.WS_AUTH_TIMEOUT_SECONDS) || 10) * 1000;
+
+// Tempo de tolerancia antes de anunciar um jogador como offline (evita "piscar" em F5/reconexao)
+const OFFLINE_GRACE_MS = 5000;
+
+// Intervalo da varredura de convites de party vencidos
+const PARTY_INVITE_SWEEP_MS = 10000;
+
+// Manutencao de BST_Friends: pedidos pendentes expiram apos N dias; REMOVED/REJECTED antigos sao apagados
+const FRIEND_MAINTENANCE_INTERVAL_MS = (Number(process.env.FRIEND_MAINTENANCE_INTERVAL_MINUTES) || 60) * 60 * 1000;
+// Primeira execucao logo apos o start, para nao esperar um intervalo inteiro apos cada deploy
+const FRIEND_MAINTENANCE_STARTUP_DELAY_MS = 30 * 1000;
+// O lock fica retido por quase todo o intervalo: cada janela executa em uma unica instancia
+const FRIEND_MAINTENANCE_LOCK_SECONDS = Math.max(60, Math.floor((FRIEND_MAINTENANCE_INTERVAL_MS * 0.9) / 1000));
+const FRIEND_REQUEST_MAX_AGE_DAYS = Number(process.env.FRIEND_REQUEST_MAX_AGE_DAYS) || 30;
+const FRIEND_REMOVED_RETENTION_DAYS = Number(process.env.FRIEND_REMOVED_RETENTION_DAYS) || 30;
+// Lotes por execucao (o restante fica para a proxima)
+const FRIEND_MAINTENANCE_MAX_BATCHES = 20;
+
+// Limite de conexoes simultaneas (abas/dispositivos) por usuario no modo multi-sessao
+const MAX_SESSIONS_PER_USER = Math.max(1, Number(process.env.WS_MAX_SESSIONS_PER_USER) || 5);
 
 interface TokenValidationParams {
   token: string;
@@ -35,20 +115,42 @@ interface TokenValidationParams {
 interface TokenValidationResult {
   valid: boolean;
   reason?: string;
+  expiresAt?: number;
+  sessionId?: string;
+  scopes?: string[];
 }
 
+// Segredo compartilhado com o Next.js para os tokens assinados (HS256)
+const WS_TOKEN_SECRET = process.env.WS_TOKEN_SECRET || '';
+
+// Fim da janela de migracao: ate esta data o token legado (ws:token:{oidUser}) ainda e aceito.
+// Sem valor definido o token legado continua aceito.
+const LEGACY_TOKEN_UNTIL = process.env.WS_LEGACY_TOKEN_UNTIL ? Date.parse(process.env.WS_LEGACY_TOKEN_UNTIL) : NaN;
+
+// Chave das rotas /admin (header x-admin-key). Sem valor definido as rotas ficam desabilitadas.
+const WS_ADMIN_KEY = process.env.WS_ADMIN_KEY || '';
+
+// Antecedencia do aviso TOKEN_EXPIRING antes do token expirar
+const TOKEN_EXPIRING_WARNING_MS = 2 * 60 * 1000;
+
 /**
  * Servidor WebSocket Social
  * Gerencia apenas funcionalidades sociais: Amigos, Quarteto e Party
  *
- * IMPORTANTE: Implementa "Tab Replacement" - nova conexão substitui a anterior
+ * IMPORTANTE: Por padrao implementa "Tab Replacement" - nova conexão substitui a anterior.
+ * Clientes que enviam `multiSession: true` no AUTH mantem varias conexoes (uma por tabId),
+ * ate MAX_SESSIONS_PER_USER; acima disso a sessao mais antiga e substituida.
  */
 export class SocialWebSocketServer {
   private redis = getRedisClient();
   private subscriber: any;
   private wss: WebSocketServer;
-  private clients: Map<number, AuthenticatedWebSocket> = new Map();
+  // oidUser -> (tabId -> socket)
+  private clients: Map<number, Map<string, AuthenticatedWebSocket>> = new Map();
   private heartbeatInterval?: NodeJS.Timeout;
+  private inviteSweepInterval?: NodeJS.Timeout;
+  private friendMaintenanceInterval?: NodeJS.Timeout;
+  private friendMaintenanceStartup?: NodeJS.Timeout;
 
   // Managers
   private friendManager: FriendManager;
@@ -56,6 +158,17 @@ export class SocialWebSocketServer {
   private quartetManager: QuartetManager;
   private tournamentInviteManager: TournamentInviteManager;
   private paymentManager: PaymentManager;
+  private routingManager: RoutingManager;
+  private inboxManager: InboxManager;
+  private presenceManager: PresenceManager;
+  private directMessageManager: DirectMessageManager;
+  private rateLimitManager: RateLimitManager;
+  private sessionRevocationManager: SessionRevocationManager;
+  private moderationManager: ModerationManager;
+  private jobLockManager: JobLockManager;
+  private friendSuggestionManager: FriendSuggestionManager;
+  private friendPreferenceManager: FriendPreferenceManager;
+  private userSearchManager: UserSearchManager;
 
   // Servidor HTTP e App Express
   private app: express.Express;
@@ -104,11 +217,32 @@ export class SocialWebSocketServer {
     this.quartetManager = new QuartetManager();
     this.tournamentInviteManager = new TournamentInviteManager();
     this.paymentManager = new PaymentManager();
-
-    // 6. Configurar o Servidor WebSocket
+    this.routingManager = new RoutingManager();
+    this.inboxManager = new InboxManager();
+    this.presenceManager = new PresenceManager();
+    this.directMessageManager = new DirectMessageManager();
+    this.rateLimitManager = new RateLimitManager();
+    this.sessionRevocationManager = new SessionRevocationManager();
+    this.moderationManager = new ModerationManager();
+    this.jobLockManager = new JobLockManager();
+    this.friendSuggestionManager = new FriendSuggestionManager();
+    this.friendPreferenceManager = new FriendPreferenceManager();
+    this.userSearchManager = new UserSearchManager();
+
+    // 6. Rotas administrativas (logout forcado)
+    this.setupAdminRoutes();
+
+    // 7. Configurar o Servidor WebSocket
     this.setupWebSocketServer();
     this.setupRedisSubscriber(); // Configurar subscriber Redis
     this.startHeartbeat();
+    this.startInviteSweeper();
+    this.startFriendMaintenance();
+
+    // Reconstroi os indices de convites de party por usuario (executa uma unica vez)
+    this.partyManager.migrateInviteIndex().catch((err) => {
+      log('error', 'Falha ao migrar indice de convites de party', err);
+    });
 
     log('info', 'Social WebSocket Server pronto.');
   }
@@ -165,7 +299,20 @@ export class SocialWebSocketServer {
         }
       });
       
-      log('info', '📡 Redis Subscriber conectado (social:events, payment:events)');
+      // Subscreve ao canal desta instancia (mensagens roteadas por outras maquinas)
+      await this.subscriber.subscribe(this.routingManager.channel, (message: string) => {
+        try {
+          const envelope: RoutedEnvelope = JSON.parse(message);
+          this.handleRoutedEnvelope(envelope);
+        } catch (err) {
+          log('error', 'Erro ao processar mensagem roteada:', err);
+        }
+      });
+
+      log(
+        'info',
+        `📡 Redis Subscriber conectado (social:events, payment:events, ${this.routingManager.channel})`
+      );
     } catch (err) {
       log('error', '❌ Falha ao configurar Redis Subscriber. Tentando novamente em 5s...', err);
       setTimeout(() => this.setupRedisSubscriber(), 5000);
@@ -175,57 +322,116 @@ export class SocialWebSocketServer {
   /**
    * Processar eventos vindos do Redis (API Next.js -> WebSocket)
    */
-  private handleRedisEvent(event: { type: string, payload: any }) {
+  private handleRedisEvent(event: BroadcastEvent) {
     log('debug', `Evento Redis recebido: ${event.type}`, event.payload);
 
+    // Todas as instancias recebem social:events, entao cada uma entrega apenas aos seus sockets locais
+
     if (event.type === 'TOURNAMENT_INVITE_RECEIVED') {
       const { targetOidUser } = event.payload;
-      const client = this.clients.get(targetOidUser);
-      
-      if (client && client.readyState === WebSocket.OPEN) {
+      // Payload publicado pela API (confiavel) e repassado como veio
+      const message: OutboundMessage = {
+        type: 'TOURNAMENT_INVITE_RECEIVED',
+        payload: event.payload as OutboundPayloads['TOURNAMENT_INVITE_RECEIVED']
+      };
+
+      if (this.deliverLocal(Number(targetOidUser), message)) {
         log('info', `Encaminhando convite de torneio para ${targetOidUser}`);
-        this.sendMessage(client, {
-          type: 'TOURNAMENT_INVITE_RECEIVED',
-          payload: event.payload
-        });
       } else {
-        log('debug', `Alvo ${targetOidUser} offline, convite nao entregue em tempo real.`);
+        log('debug', `Alvo ${targetOidUser} nao conectado nesta instancia, convite nao entregue em tempo real.`);
+        this.queueBroadcastEventIfOffline(Number(targetOidUser), message, event).catch((err) => {
+          log('warn', `Falha ao enfileirar convite de torneio para ${targetOidUser}`, err);
+        });
       }
     }
 
     if (event.type === 'TOURNAMENT_INVITE_REMOVED') {
       const { targetOidUser } = event.payload;
-      const client = this.clients.get(targetOidUser);
-      
-      if (client && client.readyState === WebSocket.OPEN) {
+      const message: OutboundMessage = {
+        type: 'TOURNAMENT_INVITE_REMOVED',
+        payload: event.payload as OutboundPayloads['TOURNAMENT_INVITE_REMOVED']
+      };
+      if (this.deliverLocal(Number(targetOidUser), message)) {
         log('info', `Notificando remocao de convite para ${targetOidUser}`);
-        this.sendMessage(client, {
-          type: 'TOURNAMENT_INVITE_REMOVED',
-          payload: event.payload
+      }
+    }
+
+    // Logout forcado: o evento pode vir do site, que nao invalida os tokens. Cada instancia invalida
+    // (idempotente) antes de fechar os seus sockets, para o cliente nao reconectar com o token antigo.
+    if (event.type === 'SESSION_REVOKE') {
+      const oidUser = Number(event.payload?.oidUser);
+      if (oidUser) {
+        const revocation: SessionRevocation = {
+          oidUser,
+          reason: typeof event.payload.reason === 'string' ? event.payload.reason : 'SESSION_REVOKED',
+          sessionId: typeof event.payload.sessionId === 'string' ? event.payload.sessionId : undefined,
+          revokedAt: Number(event.payload.revokedAt) || Date.now()
+        };
+        this.moderationManager.invalidate(oidUser).catch(() => {});
+        this.sessionRevocationManager
+          .invalidate(revocation)
+          .catch((err) => log('error', `Falha ao invalidar tokens de ${oidUser}`, err))
+          .then(() => this.closeRevokedSockets(revocation));
+      }
+    }
+
+    // Ban/mute alterado pelo site: descarta o cache para valer imediatamente
+    if (event.type === 'MODERATION_UPDATED') {
+      const oidUser = Number(event.payload?.oidUser);
+      if (oidUser) {
+        this.moderationManager.invalidate(oidUser).catch((err) => {
+          log('warn', `Falha ao invalidar cache de moderacao de ${oidUser}`, err);
+        });
+      }
+    }
+
+    // NickName alterado pelo site: cada instancia atualiza seus sockets; apenas uma avisa os contatos
+    if (event.type === 'USER_PROFILE_UPDATED') {
+      const oidUser = Number(event.payload?.oidUser);
+      if (oidUser) {
+        this.propagateProfileUpdate(oidUser, event).catch((err) => {
+          log('error', `Falha ao propagar alteracao de perfil de ${oidUser}`, err);
         });
       }
     }
 
     if (event.type === 'USER_NOTIFICATION') {
       const { targetOidUser } = event.payload;
-      const client = this.clients.get(Number(targetOidUser));
-      
-      if (client && client.readyState === WebSocket.OPEN) {
+      const message: OutboundMessage = { type: 'NOTIFICATION_RECEIVED', payload: event.payload };
+
+      if (this.deliverLocal(Number(targetOidUser), message)) {
         log('info', `Encaminhando notificacao global para ${targetOidUser}`);
-        this.sendMessage(client, {
-          type: 'NOTIFICATION_RECEIVED',
-          payload: event.payload
+      } else {
+        this.queueBroadcastEventIfOffline(Number(targetOidUser), message, event).catch((err) => {
+          log('warn', `Falha ao enfileirar notificacao para ${targetOidUser}`, err);
         });
       }
     }
 
+    // Status definido pela API (ex.: entrou na fila / partida). Apenas uma instancia anuncia.
+    if (event.type === 'USER_STATUS_UPDATE') {
+      const oidUser = Number(event.payload?.oidUser);
+      const status = event.payload?.status;
+      if (oidUser && PresenceManager.isSettableStatus(status)) {
+        this.inboxManager
+          .claimEvent(event)
+          .then(async (claimed) => {
+            if (!claimed) return;
+            if (await this.presenceManager.setStatus(oidUser, status)) {
+              await this.broadcastPresence(oidUser);
+            }
+          })
+          .catch((err) => log('warn', `Falha ao aplicar status de ${oidUser}`, err));
+      }
+    }
+
     if (event.type === 'MATCH_CHAT_UPDATE') {
       const { recipients, ...payload } = event.payload;
 
       // Broadcast global: chat atualizado (ex: veto/pick) — todos devem refetch
       if (recipients === 'ALL') {
         log('info', `[WS-CHAT] Broadcast global para matchId: ${payload.matchId}`);
-        this.clients.forEach((client) => {
+        this.forEachLocalSocket((client) => {
           if (client.readyState === WebSocket.OPEN) {
             this.sendMessage(client, {
               type: 'MATCH_CHAT_UPDATE',
@@ -238,29 +444,25 @@ export class SocialWebSocketServer {
 
       if (Array.isArray(recipients)) {
         recipients.forEach((targetId: number) => {
-          const client = this.clients.get(Number(targetId));
-          const isConnected = client && client.readyState === WebSocket.OPEN;
-
-          if (isConnected && client) {
-             this.sendMessage(client, {
-               type: 'MATCH_CHAT_MESSAGE_RECEIVED',
-               payload: payload
-             });
-          }
+          this.deliverLocal(Number(targetId), {
+            type: 'MATCH_CHAT_MESSAGE_RECEIVED',
+            payload: payload
+          });
         });
       }
     }
 
     if (event.type === 'MATCH_STATUS_UPDATE' || event.type === 'MATCH_EXCEPTION_UPDATE') {
+      const matchEventType: 'MATCH_STATUS_UPDATE' | 'MATCH_EXCEPTION_UPDATE' = event.type;
       const { recipients, ...payload } = event.payload;
       
       // Suporte a Broadcast Global para todos os usuários conectados
       if (recipients === 'ALL') {
         log('info', `[WS-MATCH] Broadcast global para ${event.type}`);
-        this.clients.forEach((client) => {
+        this.forEachLocalSocket((client) => {
           if (client.readyState === WebSocket.OPEN) {
             this.sendMessage(client, {
-              type: event.type,
+              type: matchEventType,
               payload: payload
             });
           }
@@ -271,13 +473,10 @@ export class SocialWebSocketServer {
       // Encaminhamento para destinatários específicos
       if (Array.isArray(recipients)) {
         recipients.forEach((targetId: number) => {
-          const client = this.clients.get(Number(targetId));
-          if (client && client.readyState === WebSocket.OPEN) {
-            this.sendMessage(client, {
-              type: event.type,
-              payload: payload
-            });
-          }
+          this.deliverLocal(Number(targetId), {
+            type: matchEventType,
+            payload: payload
+          });
         });
       }
     }
@@ -285,7 +484,7 @@ export class SocialWebSocketServer {
     if (event.type === 'MATCH_VETO_UPDATE') {
       const { recipients, ...payload } = event.payload;
       log('info', `[WS-VETO] Broadcast veto update para matchId: ${payload.matchId}`);
-      this.clients.forEach((client) => {
+      this.forEachLocalSocket((client) => {
         if (client.readyState === WebSocket.OPEN) {
           this.sendMessage(client, {
             type: 'MATCH_VETO_UPDATE',
@@ -297,7 +496,7 @@ export class SocialWebSocketServer {
 
     if (event.type === 'TOURNAMENT_DRAW_UPDATE') {
       log('info', `[WS-DRAW] Retransmitindo sorteio para todos os clientes: ${event.payload.action}`);
-      this.clients.forEach((client) => {
+      this.forEachLocalSocket((client) => {
         if (client.readyState === WebSocket.OPEN) {
           this.sendMessage(client, {
             type: 'TOURNAMENT_DRAW_UPDATE',
@@ -308,6 +507,40 @@ export class SocialWebSocketServer {
     }
   }
 
+  /**
+   * Processar mensagens roteadas por outras instancias (canal social:instance:{id})
+   */
+  private handleRoutedEnvelope(envelope: RoutedEnvelope): void {
+    if (envelope.originInstanceId === this.routingManager.instanceId) return;
+    const targetOidUser = Number(envelope.targetOidUser);
+
+    if (envelope.kind === 'DELIVER' && envelope.message) {
+      this.deliverLocal(targetOidUser, envelope.message);
+      return;
+    }
+
+    if (envelope.kind === 'REPLACE') {
+      // Limite de sessoes: fecha apenas a aba indicada
+      if (envelope.targetTabId) {
+        const target = this.clients.get(targetOidUser)?.get(envelope.targetTabId);
+        if (target && (!envelope.targetConnectionId || target.connectionId === envelope.targetConnectionId)) {
+          this.replaceSocket(target, envelope.reason || 'SESSION_LIMIT');
+        }
+        return;
+      }
+
+      for (const existing of this.getLocalSockets(targetOidUser)) {
+        if (existing.tabId && envelope.tabId && existing.tabId === envelope.tabId) {
+          log('info', `[RECONNECT] Mesma aba reconectou em outra instancia (oidUser=${targetOidUser})`);
+          existing.close();
+        } else {
+          log('info', `[TAB_REPLACEMENT] oidUser=${targetOidUser} autenticou na instancia ${envelope.originInstanceId}`);
+          this.replaceSocket(existing, 'NEW_TAB_OPENED');
+        }
+      }
+    }
+  }
+
   /**
    * Iniciar o servidor e escutar na porta
    */
@@ -317,6 +550,160 @@ export class SocialWebSocketServer {
     });
   }
 
+  /**
+   * Encerrar o servidor: para as tarefas agendadas e deixa de aceitar conexoes
+   */
+  public close(): void {
+    clearInterval(this.heartbeatInterval);
+    clearInterval(this.inviteSweepInterval);
+    clearInterval(this.friendMaintenanceInterval);
+    clearTimeout(this.friendMaintenanceStartup);
+    this.heartbeatInterval = undefined;
+    this.inviteSweepInterval = undefined;
+    this.friendMaintenanceInterval = undefined;
+    this.friendMaintenanceStartup = undefined;
+    this.wss.close();
+    this.httpServer.close();
+  }
+
+  /**
+   * Rotas administrativas protegidas por x-admin-key
+   * - GET  /admin/sessions/:oidUser         sessoes ativas do jogador
+   * - POST /admin/sessions/:oidUser/revoke  logout forcado { reason?, sessionId? }
+   */
+  private setupAdminRoutes(): void {
+    const admin = express.Router();
+    admin.use(express.json());
+    admin.use((req, res, next) => {
+      if (!WS_ADMIN_KEY) {
+        res.status(503).json({ error: 'ADMIN_DISABLED' });
+        return;
+      }
+      const provided = Buffer.from(String(req.header('x-admin-key') ?? ''));
+      const expected = Buffer.from(WS_ADMIN_KEY);
+      if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+        log('warn', `Acesso admin recusado: ${req.method} ${req.originalUrl}`);
+        res.status(401).json({ error: 'UNAUTHORIZED' });
+        return;
+      }
+      next();
+    });
+
+    admin.get('/sessions/:oidUser', async (req, res) => {
+      const oidUser = Number(req.params.oidUser);
+      if (!Number.isInteger(oidUser) || oidUser <= 0) {
+        res.status(400).json({ error: 'INVALID_TARGET' });
+        return;
+      }
+      try {
+        const sessions = await this.routingManager.listSessions(oidUser);
+        res.json({ oidUser, sessions });
+      } catch (err) {
+        log('error', `Erro ao listar sessoes de ${oidUser}`, err);
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+      }
+    });
+
+    admin.post('/sessions/:oidUser/revoke', async (req, res) => {
+      const oidUser = Number(req.params.oidUser);
+      if (!Number.isInteger(oidUser) || oidUser <= 0) {
+        res.status(400).json({ error: 'INVALID_TARGET' });
+        return;
+      }
+      const { reason, sessionId } = req.body ?? {};
+      const revocation: SessionRevocation = {
+        oidUser,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim().slice(0, 64) : 'ADMIN_REVOKE',
+        sessionId: typeof sessionId === 'string' && sessionId ? sessionId : undefined,
+        revokedAt: Date.now()
+      };
+      try {
+        // Invalida antes de publicar: o cliente derrubado nao pode reconectar com o token antigo
+        await this.sessionRevocationManager.invalidate(revocation);
+        await this.sessionRevocationManager.publish(revocation);
+        log('info', `Logout forcado solicitado para ${oidUser} (${revocation.reason})`);
+        res.status(202).json({ ok: true, revocation });
+      } catch (err) {
+        log('error', `Erro ao revogar sessoes de ${oidUser}`, err);
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+      }
+    });
+
+    this.app.use('/admin', admin);
+  }
+
+  /**
+   * USER_PROFILE_UPDATED: atualiza o username dos sockets locais do jogador e, na instancia que
+   * reivindicar o evento, envia o novo nome ao proprio jogador, amigos, party e quarteto
+   */
+  private async propagateProfileUpdate(oidUser: number, event: BroadcastEvent): Promise<void> {
+    const sockets = this.getLocalSockets(oidUser);
+    const claimed = await this.inboxManager.claimEvent(event);
+    if (sockets.length === 0 && !claimed) return;
+
+    const informed = typeof event.payload.nickname === 'string' ? event.payload.nickname.trim().slice(0, 64) : '';
+    const username = informed || (await this.fetchNickname(oidUser));
+    if (!username) return;
+
+    for (const client of sockets) {
+      client.username = username;
+    }
+    if (!claimed) return;
+
+    const message: OutboundMessage = { type: 'USER_PROFILE_UPDATED', payload: { oidUser, username } };
+    for (const recipient of await this.loadProfileAudience(oidUser)) {
+      this.sendToPlayer(recipient, message);
+    }
+    log('info', `Novo nome de ${oidUser} propagado: ${username}`);
+  }
+
+  /**
+   * Quem exibe o nome do jogador: ele mesmo (outras abas), amigos, membros da party e do quarteto.
+   * Uma fonte indisponivel nao impede as demais.
+   */
+  private async loadProfileAudience(oidUser: number): Promise<Set<number>> {
+    const audience = new Set<number>([oidUser]);
+
+    const [friendIds, partyMembers, quartetMembers] = await Promise.all([
+      this.friendManager.listFriendIds(oidUser),
+      this.partyManager
+        .getPartyIdByPlayer(oidUser)
+        .then((partyId) => (partyId ? this.partyManager.getParty(partyId) : null))
+        .then((party) => party?.members ?? [])
+        .catch((err) => {
+          log('warn', `Falha ao carregar party de ${oidUser}`, err);
+          return [] as number[];
+        }),
+      this.quartetManager
+        .listAcceptedInvites(oidUser)
+        .then((members) => members.map((member) => Number(member.oidUser)))
+        .catch((err) => {
+          log('warn', `Falha ao carregar quarteto de ${oidUser}`, err);
+          return [] as number[];
+        })
+    ]);
+
+    for (const id of [...friendIds, ...partyMembers, ...quartetMembers]) {
+      audience.add(id);
+    }
+    return audience;
+  }
+
+  /**
+   * Fecha os sockets locais atingidos por um SESSION_REVOKE
+   */
+  private closeRevokedSockets(revocation: SessionRevocation): void {
+    for (const socket of this.getLocalSockets(revocation.oidUser)) {
+      if (revocation.sessionId && socket.tokenSessionId !== revocation.sessionId) continue;
+      log('info', `Encerrando sessao de ${revocation.oidUser} (tabId=${socket.tabId}): ${revocation.reason}`);
+      this.sendMessage(socket, {
+        type: 'SESSION_REVOKED',
+        payload: { reason: revocation.reason, message: 'Sua sessao foi encerrada. Entre novamente.' }
+      });
+      socket.close(1008, 'SESSION_REVOKED');
+    }
+  }
+
   /**
    * Configurar servidor WebSocket
    */
@@ -325,6 +712,8 @@ export class SocialWebSocketServer {
       log('debug', 'Nova conexao WebSocket');
 
       ws.isAlive = true;
+      ws.socketId = uuidv4();
+      ws.authTimer = setTimeout(() => this.handleAuthTimeout(ws), AUTH_TIMEOUT_MS);
 
       ws.on('pong', () => {
         ws.isAlive = true;
@@ -366,11 +755,15 @@ export class SocialWebSocketServer {
           try {
             socket.ping();
             
-            // Renovar presenca no Redis
+            // Renovar presenca e rota no Redis
             if (socket.oidUser) {
-              this.redis.setEx(`ws:presence:${socket.oidUser}`, 60, '1').catch(err => {
+              this.checkTokenExpiry(socket);
+              this.presenceManager.touch(socket.oidUser).catch(err => {
                 log('error', `Erro ao renovar presenca para ${socket.oidUser}`, err);
               });
+              this.routingManager.register(socket.oidUser).catch(err => {
+                log('error', `Erro ao renovar rota para ${socket.oidUser}`, err);
+              });
             }
           } catch (error) {
             log('warn', 'Falha ao enviar ping para cliente', error);
@@ -380,18 +773,122 @@ export class SocialWebSocketServer {
     }, 30000);
   }
 
+  /**
+   * Varre convites de party vencidos e avisa convidante e convidado
+   */
+  private startInviteSweeper(): void {
+    if (this.inviteSweepInterval) return;
+    this.inviteSweepInterval = setInterval(async () => {
+      try {
+        const expired = await this.partyManager.claimExpiredInvites();
+        for (const invite of expired) {
+          const message: OutboundMessage = {
+            type: 'PARTY_INVITE_EXPIRED',
+            payload: { partyId: invite.partyId, inviterOidUser: invite.inviterId, targetOidUser: invite.targetId }
+          };
+          this.sendToPlayer(invite.inviterId, message);
+          this.sendToPlayer(invite.targetId, message);
+        }
+      } catch (err) {
+        log('warn', 'Falha ao varrer convites de party vencidos', err);
+      }
+    }, PARTY_INVITE_SWEEP_MS);
+  }
+
+  /**
+   * Agenda a manutencao de BST_Friends. Apenas a instancia que obtiver o lock executa.
+   */
+  private startFriendMaintenance(): void {
+    if (this.friendMaintenanceInterval) return;
+    const run = () => {
+      this.jobLockManager
+        .runExclusive('friend-maintenance', FRIEND_MAINTENANCE_LOCK_SECONDS, () => this.runFriendMaintenance())
+        .catch((err) => log('warn', 'Falha na manutencao de amizades', err));
+    };
+    this.friendMaintenanceStartup = setTimeout(run, FRIEND_MAINTENANCE_STARTUP_DELAY_MS);
+    this.friendMaintenanceInterval = setInterval(run, FRIEND_MAINTENANCE_INTERVAL_MS);
+  }
+
+  private async runFriendMaintenance(): Promise<void> {
+    let expiredCount = 0;
+    for (let i = 0; i < FRIEND_MAINTENANCE_MAX_BATCHES; i++) {
+      const expired = await this.friendManager.expirePendingRequests(FRIEND_REQUEST_MAX_AGE_DAYS);
+      if (expired.length === 0) break;
+      expiredCount += expired.length;
+      for (const { requesterId, targetId } of expired) {
+        const message: OutboundMessage = {
+          type: 'FRIEND_REQUEST_EXPIRED',
+          payload: { requesterOidUser: requesterId, targetOidUser: targetId }
+        };
+        this.sendToPlayer(requesterId, message);
+        this.sendToPlayer(targetId, message);
+      }
+    }
+
+    let purgedCount = 0;
+    for (let i = 0; i < FRIEND_MAINTENANCE_MAX_BATCHES; i++) {
+      const purged = await this.friendManager.purgeRemoved(FRIEND_REMOVED_RETENTION_DAYS);
+      if (purged === 0) break;
+      purgedCount += purged;
+    }
+
+    if (expiredCount > 0 || purgedCount > 0) {
+      log('info', `Manutencao de amizades: ${expiredCount} pedido(s) expirado(s), ${purgedCount} registro(s) apagado(s)`);
+    }
+  }
+
   /**
    * Processar mensagem recebida
    */
   private async handleMessage(ws: AuthenticatedWebSocket, data: Buffer): Promise<void> {
-    try {
-      const message: WSMessage = JSON.parse(data.toString());
-      const payload = message.payload || (message as any).data;
-      log('debug', `Mensagem: ${message.type}`, { data: payload });
+    const parsed = parseInboundMessage(data.toString());
+    if (!parsed.ok) {
+      const { error } = parsed;
+      log('warn', `Mensagem rejeitada (${error.type ?? 'sem tipo'}): ${error.message}`);
+      this.sendMessage(ws, { type: 'VALIDATION_ERROR', payload: error });
+      if (error.requestId) {
+        this.sendMessage(ws, {
+          type: 'NACK',
+          payload: { requestId: error.requestId, type: error.type, reason: 'VALIDATION_ERROR', message: error.message }
+        });
+      }
+      return;
+    }
+
+    const message = parsed.message;
+    log('debug', `Mensagem: ${message.type}`, { data: message.payload });
+
+    if (!(await this.checkRateLimit(ws, message))) return;
+
+    if (!ws.oidUser && !PRE_AUTH_MESSAGE_TYPES.has(message.type)) {
+      log('debug', `Mensagem ${message.type} recusada: conexao nao autenticada`);
+      this.acknowledge(ws, message, this.fail(ws, 'ERROR', 'NOT_AUTHENTICATED'));
+      return;
+    }
+    const session = ws as SessionWebSocket;
+
+    const muteErrorType = MUTE_RESTRICTED_TYPES[message.type];
+    if (muteErrorType) {
+      const mute = await this.moderationManager.isMuted(session.oidUser);
+      if (mute) {
+        this.acknowledge(ws, message, this.fail(ws, muteErrorType, 'MUTED', { until: mute.until }));
+        return;
+      }
+    }
 
+    try {
+      let result: HandlerResult | void = undefined;
       switch (message.type) {
         case 'AUTH':
-          await this.handleAuth(ws, payload);
+          result = await this.handleAuth(ws, message.payload);
+          break;
+
+        case 'TOKEN_REFRESH':
+          result = await this.handleTokenRefresh(session, message.payload);
+          break;
+
+        case 'INBOX_ACK':
+          result = await this.handleInboxAck(session, message.payload);
           break;
 
         case 'HEARTBEAT':
@@ -400,119 +897,249 @@ export class SocialWebSocketServer {
           
           // Renovar presenca no Redis ao receber heartbeat
           if (ws.oidUser) {
-            this.redis.setEx(`ws:presence:${ws.oidUser}`, 60, '1').catch(() => {});
+            this.presenceManager.touch(ws.oidUser).catch(() => {});
+            this.routingManager.register(ws.oidUser).catch(() => {});
           }
           break;
 
+        // === PRESENCE ===
+        case 'PRESENCE_SET':
+          result = await this.handlePresenceSet(session, message.payload);
+          break;
+
+        // === BUSCA ===
+        case 'USER_SEARCH':
+          result = await this.handleUserSearch(session, message.payload);
+          break;
+
         // === FRIENDS ===
         case 'FRIEND_SEND':
-          await this.handleFriendSend(ws, payload);
+          result = await this.handleFriendSend(session, message.payload);
           break;
         case 'FRIEND_ACCEPT':
-          await this.handleFriendAccept(ws, payload);
+          result = await this.handleFriendAccept(session, message.payload);
           break;
         case 'FRIEND_REJECT':
-          await this.handleFriendReject(ws, payload);
+          result = await this.handleFriendReject(session, message.payload);
+          break;
+        case 'FRIEND_CANCEL':
+          result = await this.handleFriendCancel(session, message.payload);
           break;
         case 'FRIEND_REMOVE':
-          await this.handleFriendRemove(ws, payload);
+          result = await this.handleFriendRemove(session, message.payload);
           break;
         case 'FRIEND_LIST':
-          await this.handleFriendList(ws);
+          result = await this.handleFriendList(session);
           break;
         case 'FRIEND_PENDING':
-          await this.handleFriendPending(ws);
+          result = await this.handleFriendPending(session);
+          break;
+        case 'FRIEND_SUGGESTIONS':
+          result = await this.handleFriendSuggestions(session, message.payload);
+          break;
+        case 'FRIEND_MUTUALS':
+          result = await this.handleFriendMutuals(session, message.payload);
+          break;
+        case 'FRIEND_GROUP_CREATE':
+          result = await this.handleFriendGroupCreate(session, message.payload);
+          break;
+        case 'FRIEND_GROUP_RENAME':
+          result = await this.handleFriendGroupRename(session, message.payload);
+          break;
+        case 'FRIEND_GROUP_DELETE':
+          result = await this.handleFriendGroupDelete(session, message.payload);
+          break;
+        case 'FRIEND_SET_GROUP':
+          result = await this.handleFriendSetGroup(session, message.payload);
+          break;
+        case 'FRIEND_SET_FAVORITE':
+          result = await this.handleFriendSetFavorite(session, message.payload);
+          break;
+        case 'FRIEND_SET_MUTED':
+          result = await this.handleFriendSetMuted(session, message.payload);
+          break;
+        case 'FRIEND_BLOCK':
+          result = await this.handleFriendBlock(session, message.payload);
+          break;
+        case 'FRIEND_UNBLOCK':
+          result = await this.handleFriendUnblock(session, message.payload);
+          break;
+        case 'FRIEND_BLOCK_LIST':
+          result = await this.handleFriendBlockList(session);
+          break;
+
+        // === DIRECT MESSAGES ===
+        case 'DM_SEND':
+          result = await this.handleDmSend(session, message.payload);
+          break;
+        case 'DM_HISTORY':
+          result = await this.handleDmHistory(session, message.payload);
+          break;
+        case 'DM_READ':
+          result = await this.handleDmRead(session, message.payload);
+          break;
+        case 'DM_TYPING':
+          result = await this.handleDmTyping(session, message.payload);
           break;
 
         // === QUARTET ===
         case 'QUARTET_INVITE_SEND':
-          await this.handleQuartetInviteSend(ws, payload);
+          result = await this.handleQuartetInviteSend(session, message.payload);
           break;
         case 'QUARTET_INVITE_ACCEPT':
-          await this.handleQuartetInviteAccept(ws, payload);
+          result = await this.handleQuartetInviteAccept(session, message.payload);
           break;
         case 'QUARTET_INVITE_REJECT':
-          await this.handleQuartetInviteReject(ws, payload);
+          result = await this.handleQuartetInviteReject(session, message.payload);
           break;
         case 'QUARTET_INVITE_REMOVE':
-          await this.handleQuartetInviteRemove(ws, payload);
+          result = await this.handleQuartetInviteRemove(session, message.payload);
           break;
         case 'QUARTET_LIST_ACCEPTED':
-          await this.handleQuartetListAccepted(ws);
+          result = await this.handleQuartetListAccepted(session);
           break;
         case 'QUARTET_LIST_PENDING':
-          await this.handleQuartetListPending(ws);
+          result = await this.handleQuartetListPending(session);
           break;
 
         // === PARTY ===
         case 'PARTY_CREATE':
-          await this.handlePartyCreate(ws);
+          result = await this.handlePartyCreate(session, message.payload);
           break;
         case 'PARTY_INVITE':
-          await this.handlePartyInvite(ws, payload);
+          result = await this.handlePartyInvite(session, message.payload);
           break;
         case 'PARTY_ACCEPT_INVITE':
-          await this.handlePartyAcceptInvite(ws, payload);
+          result = await this.handlePartyAcceptInvite(session, message.payload);
           break;
         case 'PARTY_DECLINE_INVITE':
-          await this.handlePartyDeclineInvite(ws, payload);
+          result = await this.handlePartyDeclineInvite(session, message.payload);
+          break;
+        case 'PARTY_INVITE_LIST':
+          result = await this.handlePartyInviteList(session);
           break;
         case 'PARTY_LEAVE':
-          await this.handlePartyLeave(ws);
+          result = await this.handlePartyLeave(session);
           break;
         case 'PARTY_KICK':
-          await this.handlePartyKick(ws, payload);
+          result = await this.handlePartyKick(session, message.payload);
           break;
         case 'PARTY_TRANSFER_LEAD':
-          await this.handlePartyTransferLead(ws, payload);
+          result = await this.handlePartyTransferLead(session, message.payload);
+          break;
+        case 'PARTY_CHAT_SEND':
+          result = await this.handlePartyChatSend(session, message.payload);
           break;
 
         // === TOURNAMENT ===
         case 'TOURNAMENT_INVITE_SEND':
-          await this.handleTournamentInviteSend(ws, payload);
+          result = await this.handleTournamentInviteSend(session, message.payload);
           break;
         case 'TOURNAMENT_INVITE_ACCEPT':
-          await this.handleTournamentInviteAccept(ws, payload);
+          result = await this.handleTournamentInviteAccept(session, message.payload);
           break;
         case 'TOURNAMENT_INVITE_REJECT':
-          await this.handleTournamentInviteReject(ws, payload);
+          result = await this.handleTournamentInviteReject(session, message.payload);
           break;
         case 'TOURNAMENT_INVITE_REMOVE':
-          await this.handleTournamentInviteRemove(ws, payload);
+          result = await this.handleTournamentInviteRemove(session, message.payload);
           break;
         case 'TOURNAMENT_INVITE_LIST':
-          await this.handleTournamentInviteList(ws);
+          result = await this.handleTournamentInviteList(session);
           break;
 
         // === PAYMENT ===
         case 'PAYMENT_WATCH':
-          if (payload?.transactionId) {
-            this.paymentManager.watchTransaction(ws, payload.transactionId);
-          }
+          this.paymentManager.watchTransaction(ws, message.payload.transactionId);
           break;
-
-        default:
-          log('warn', `Mensagem desconhecida: ${message.type}`);
-          this.sendError(ws, 'Tipo de mensagem invalido');
       }
+
+      this.acknowledge(ws, message, result);
     } catch (error) {
       log('error', 'Erro ao processar mensagem', error);
+      this.acknowledge(ws, message, this.fail(ws, 'ERROR', 'SERVICE_UNAVAILABLE'));
+    }
+  }
+
+  /**
+   * Guarda no socket a expiracao, sessao e escopos do token validado
+   */
+  private applyTokenClaims(ws: AuthenticatedWebSocket, validation: TokenValidationResult): void {
+    ws.tokenExpiresAt = validation.expiresAt;
+    ws.tokenSessionId = validation.sessionId;
+    ws.scopes = validation.scopes;
+    ws.tokenExpiryWarned = false;
+  }
+
+  /**
+   * Avisa o cliente (TOKEN_EXPIRING) antes do token expirar e encerra a conexao que nao
+   * renovou a tempo via TOKEN_REFRESH
+   */
+  private checkTokenExpiry(ws: AuthenticatedWebSocket): void {
+    if (!ws.tokenExpiresAt) return;
+    const remaining = ws.tokenExpiresAt - Date.now();
+
+    if (remaining <= 0) {
+      log('info', `Token expirado para ${ws.oidUser}, encerrando conexao`);
       this.sendMessage(ws, {
-        type: 'ERROR',
-        payload: {
-          reason: 'SERVICE_UNAVAILABLE',
-          message: 'Servidor indisponivel. Tente novamente em instantes.'
-        }
+        type: 'AUTH_FAILED',
+        payload: { reason: 'TOKEN_EXPIRED', message: 'Reautentique-se para continuar.' }
       });
+      ws.close(1008, 'TOKEN_EXPIRED');
+      return;
+    }
+
+    if (remaining <= TOKEN_EXPIRING_WARNING_MS && !ws.tokenExpiryWarned) {
+      ws.tokenExpiryWarned = true;
+      this.sendMessage(ws, { type: 'TOKEN_EXPIRING', payload: { expiresAt: ws.tokenExpiresAt } });
+    }
+  }
+
+  /**
+   * Encerra conexoes que nao se autenticaram dentro de AUTH_TIMEOUT_MS
+   */
+  private handleAuthTimeout(ws: AuthenticatedWebSocket): void {
+    if (ws.oidUser || ws.readyState !== WebSocket.OPEN) return;
+    log('debug', 'Conexao encerrada: AUTH nao recebido dentro do prazo');
+    this.sendMessage(ws, {
+      type: 'AUTH_FAILED',
+      payload: { reason: 'AUTH_TIMEOUT', message: 'Tempo para autenticacao esgotado.' }
+    });
+    ws.close(1008, 'AUTH_TIMEOUT');
+  }
+
+  /**
+   * Aplica o rate limit do tipo da mensagem. Mensagens bloqueadas recebem RATE_LIMITED;
+   * conexoes que insistem acima do limite sao encerradas.
+   */
+  private async checkRateLimit(ws: AuthenticatedWebSocket, message: InboundMessage): Promise<boolean> {
+    const subject = { socketId: ws.socketId ?? 'unknown', oidUser: ws.oidUser };
+    const { allowed, retryAfterMs } = await this.rateLimitManager.consume(subject, message.type);
+    if (allowed) return true;
+
+    const reason = 'RATE_LIMITED';
+    this.sendMessage(ws, {
+      type: 'RATE_LIMITED',
+      payload: { type: message.type, reason, message: describeError(reason), retryAfterMs }
+    });
+    this.acknowledge(ws, message, { ok: false, reason, message: describeError(reason) });
+
+    if (await this.rateLimitManager.recordViolation(subject)) {
+      log('warn', `Conexao encerrada por excesso de mensagens (oidUser=${ws.oidUser ?? 'anon'}, tipo=${message.type})`);
+      ws.close(1008, reason);
     }
+    return false;
   }
 
   /**
    * AUTH - Autenticacao do jogador
-   * IMPORTANTE: Implementa TAB REPLACEMENT - nova conexao substitui a anterior
+   * IMPORTANTE: Implementa TAB REPLACEMENT - nova conexao substitui a anterior,
+   * exceto quando o cliente opta por multiSession (ver applySessionPolicy)
    */
-  private async handleAuth(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    const { oidUser, token, username, tabId } = payload;
+  private async handleAuth(ws: AuthenticatedWebSocket, payload: InboundPayload<'AUTH'>): Promise<HandlerResult | void> {
+    const { oidUser, token, username } = payload;
+    const tabId: string = payload.tabId?.trim() || uuidv4();
+    const multiSession = payload.multiSession === true;
 
     const incomingSocket: any = (ws as any)._socket;
     log(
@@ -543,32 +1170,36 @@ export class SocialWebSocketServer {
       return ws.close();
     }
 
-    // TAB REPLACEMENT: Se ja existe conexao, fechar a antiga e usar a nova
-    const existingConnection = this.clients.get(numericOidUser);
-    if (existingConnection && existingConnection.readyState === WebSocket.OPEN) {
-      // Verifica se é a mesma aba reconectando
-      if (existingConnection.tabId && tabId && existingConnection.tabId === tabId) {
-        log('info', `[RECONNECT] Mesma aba reconectando para oidUser=${numericOidUser} (tabId=${tabId})`);
-        existingConnection.close();
-      } else {
-        log('info', `[TAB_REPLACEMENT] Substituindo conexao antiga de oidUser=${numericOidUser}`);
-
-        // Notificar a aba antiga que ela foi substituida
-        this.sendMessage(existingConnection, {
-          type: 'SESSION_REPLACED',
-          payload: {
-            message: 'Sua sessao foi substituida por uma nova aba/janela.',
-            reason: 'NEW_TAB_OPENED'
-          }
-        });
-
-        // Fechar a conexao antiga
-        existingConnection.close();
-      }
+    // Conta banida no jogo nao entra no social
+    const { ban } = await this.moderationManager.getStatus(numericOidUser);
+    if (ban) {
+      log('warn', `AUTH recusado para oidUser=${oidUser}: conta banida`);
+      this.sendMessage(ws, {
+        type: 'AUTH_FAILED',
+        payload: { reason: 'BANNED', message: describeError('BANNED'), until: ban.until }
+      });
+      return ws.close();
     }
 
+    clearTimeout(ws.authTimer);
     ws.oidUser = numericOidUser;
+    this.applyTokenClaims(ws, tokenValidation);
     ws.tabId = tabId;
+    ws.connectionId = uuidv4();
+    ws.connectedAt = Date.now();
+    ws.multiSession = multiSession;
+
+    // Registra o novo socket (Map local + rota) antes de fechar os substituidos: o fechamento
+    // deles dispara handleDisconnect, que nao pode remover a rota de uma conexao viva
+    const previousSockets = this.getLocalSockets(numericOidUser);
+    this.addLocalSocket(ws);
+    try {
+      await this.routingManager.register(numericOidUser);
+    } catch (err) {
+      log('error', `Erro ao registrar rota para ${numericOidUser}`, err);
+    }
+
+    await this.applySessionPolicy(ws, previousSockets);
 
     // Busca NickName real do banco de dados
     try {
@@ -588,20 +1219,51 @@ export class SocialWebSocketServer {
       ws.username = username || `Player${numericOidUser}`;
     }
 
-    this.clients.set(numericOidUser, ws);
     console.log(`[AUTH-DEBUG] Cliente registrado no Map: Key=${numericOidUser} (Type: ${typeof numericOidUser}) | Total Clients: ${this.clients.size}`);
-    log('info', `${ws.username} (${numericOidUser}) autenticado. Conexoes ativas: ${this.clients.size}`);
+    log(
+      'info',
+      `${ws.username} (${numericOidUser}) autenticado (tabId=${tabId}, multiSession=${multiSession}). Conexoes ativas: ${this.countLocalSockets()}`
+    );
 
-    // Registrar presenca no Redis
-    await this.redis.setEx(`ws:presence:${numericOidUser}`, 60, '1').catch(err => {
+    // Registrar presenca no Redis (anuncia aos amigos se acabou de ficar online)
+    const wasOnline = (await this.presenceManager.getPresence(numericOidUser)).online;
+    await this.presenceManager.touch(numericOidUser).catch(err => {
       log('error', `Erro ao registrar presenca para ${numericOidUser}`, err);
     });
+    if (!wasOnline) {
+      this.broadcastPresence(numericOidUser).catch(err => {
+        log('warn', `Falha ao anunciar presenca de ${numericOidUser}`, err);
+      });
+    }
+
+    // Registrar sessao desta instancia (a rota ja foi registrada antes da politica de sessoes)
+    try {
+      await this.routingManager.addSession(numericOidUser, {
+        tabId,
+        connectionId: ws.connectionId,
+        connectedAt: ws.connectedAt
+      });
+    } catch (err) {
+      log('error', `Erro ao registrar rota para ${numericOidUser}`, err);
+    }
 
     this.sendMessage(ws, {
       type: 'AUTH_SUCCESS',
-      payload: { oidUser: numericOidUser, username: ws.username }
+      payload: { oidUser: numericOidUser, username: ws.username, expiresAt: ws.tokenExpiresAt }
     });
 
+    // Reenvia eventos recebidos enquanto estava offline
+    await this.replayInbox(ws);
+
+    // Mensagens diretas nao lidas
+    try {
+      const counts = await this.directMessageManager.unreadCounts(numericOidUser);
+      const total = counts.reduce((sum, c) => sum + c.count, 0);
+      this.sendMessage(ws, { type: 'DM_UNREAD', payload: { counts, total } });
+    } catch (err) {
+      log('warn', `Falha ao enviar DM_UNREAD para ${numericOidUser}`, err);
+    }
+
     // Reenvia estado de party (suporte a F5/reconexao)
     try {
       const partyId = await this.partyManager.getPartyIdByPlayer(oidUser);
@@ -609,26 +1271,176 @@ export class SocialWebSocketServer {
         const party = await this.partyManager.getParty(partyId);
         if (party) {
           this.sendMessage(ws, { type: 'PARTY_UPDATED', payload: { party } });
+          const messages = await this.partyManager.getChatHistory(partyId);
+          this.sendMessage(ws, { type: 'PARTY_CHAT_HISTORY', payload: { partyId, messages } });
         }
       }
     } catch (err) {
       log('warn', `Falha ao reemitir PARTY_UPDATED para ${oidUser}`, err);
     }
+
+    // Reenvia convites de party ainda pendentes
+    try {
+      const { incoming } = await this.partyManager.listInvites(numericOidUser);
+      for (const invite of incoming) {
+        if (await this.friendPreferenceManager.isMuted(numericOidUser, invite.inviterId, 'PARTY_INVITE')) continue;
+        this.sendMessage(ws, { type: 'PARTY_INVITE', payload: this.toPartyInvitePayload(invite) });
+      }
+    } catch (err) {
+      log('warn', `Falha ao reenviar convites de party para ${numericOidUser}`, err);
+    }
   }
 
   /**
-   * Validar token de autenticacao
+   * Aplica a politica de sessoes antes de registrar o novo socket:
+   * - modo classico: derruba todas as conexoes do usuario (locais e em outras instancias)
+   * - multiSession: derruba apenas a mesma aba reconectando e, se o limite for atingido,
+   *   as sessoes mais antigas (fallback para o tab replacement)
+   * `previousSockets` sao os sockets locais do jogador antes do registro do novo.
    */
-  private async validateAuthToken(params: TokenValidationParams): Promise<TokenValidationResult> {
-    const { token, oidUser } = params;
+  private async applySessionPolicy(ws: AuthenticatedWebSocket, previousSockets: AuthenticatedWebSocket[]): Promise<void> {
+    const oidUser = ws.oidUser as number;
+    const tabId = ws.tabId as string;
+
+    if (!ws.multiSession) {
+      for (const existing of previousSockets) {
+        if (existing.tabId === tabId) {
+          log('info', `[RECONNECT] Mesma aba reconectando para oidUser=${oidUser} (tabId=${tabId})`);
+          existing.close();
+        } else {
+          log('info', `[TAB_REPLACEMENT] Substituindo conexao antiga de oidUser=${oidUser}`);
+          this.replaceSocket(existing, 'NEW_TAB_OPENED');
+        }
+      }
+      await this.routingManager.announceReplacement(oidUser, tabId).catch((err) => {
+        log('warn', `Falha ao anunciar substituicao de sessao para ${oidUser}`, err);
+      });
+      return;
+    }
 
-    try {
-      // Token eh gerado pelo Next.js e armazenado no Redis
-      const storedToken = await this.redis.get(`ws:token:${oidUser}`);
+    const sessions = await this.routingManager.listSessions(oidUser);
 
-      
-      if (!storedToken) {
-        return { valid: false, reason: 'TOKEN_NOT_FOUND' };
+    // Mesma aba reconectando (possivelmente em outra instancia)
+    const sameTab = sessions.find((session) => session.tabId === tabId);
+    if (sameTab) {
+      log('info', `[RECONNECT] Mesma aba reconectando para oidUser=${oidUser} (tabId=${tabId})`);
+      await this.closeSession(oidUser, sameTab, 'RECONNECT');
+    }
+    const local = previousSockets.find((socket) => socket.tabId === tabId);
+    if (local) {
+      local.close();
+    }
+
+    // Limite de sessoes: substitui as mais antigas
+    const others = sessions.filter((session) => session.tabId !== tabId);
+    const overflow = others.length - (MAX_SESSIONS_PER_USER - 1);
+    for (const session of others.slice(0, Math.max(0, overflow))) {
+      log('info', `[SESSION_LIMIT] Substituindo sessao ${session.tabId} de oidUser=${oidUser}`);
+      await this.closeSession(oidUser, session, 'SESSION_LIMIT');
+    }
+  }
+
+  /**
+   * Fecha uma sessao registrada, local ou em outra instancia
+   */
+  private async closeSession(oidUser: number, session: SessionInfo, reason: string): Promise<void> {
+    if (session.instanceId !== this.routingManager.instanceId) {
+      await this.routingManager.replaceRemoteSession(oidUser, session, reason);
+      return;
+    }
+    const socket = this.clients.get(oidUser)?.get(session.tabId);
+    if (!socket || socket.connectionId !== session.connectionId) return;
+    if (reason === 'RECONNECT') {
+      socket.close();
+    } else {
+      this.replaceSocket(socket, reason);
+    }
+  }
+
+  /**
+   * Notifica a aba antiga que ela foi substituida e fecha a conexao
+   */
+  private replaceSocket(socket: AuthenticatedWebSocket, reason: string): void {
+    this.sendMessage(socket, {
+      type: 'SESSION_REPLACED',
+      payload: {
+        message:
+          reason === 'SESSION_LIMIT'
+            ? 'Limite de sessoes simultaneas atingido. Esta aba foi desconectada.'
+            : 'Sua sessao foi substituida por uma nova aba/janela.',
+        reason
+      }
+    });
+    socket.close();
+  }
+
+  /**
+   * Reenvia a inbox offline, em ordem. O cliente confirma com INBOX_ACK; eventos nao
+   * confirmados voltam no proximo AUTH (o cliente deduplica pelo id).
+   */
+  private async replayInbox(ws: AuthenticatedWebSocket): Promise<void> {
+    if (!ws.oidUser) return;
+    const events = await this.inboxManager.list(ws.oidUser);
+    if (events.length === 0) return;
+    log('info', `Reenviando ${events.length} evento(s) da inbox para ${ws.oidUser}`);
+    this.sendMessage(ws, { type: 'INBOX_REPLAY', payload: { events } });
+  }
+
+  private async handleInboxAck(ws: SessionWebSocket, payload: InboundPayload<'INBOX_ACK'>): Promise<HandlerResult | void> {
+    const ids = payload.ids;
+    if (ids.length === 0) {
+      return this.fail(ws, 'ERROR', 'IDS_REQUIRED');
+    }
+    const removed = await this.inboxManager.ack(ws.oidUser, ids);
+    this.sendMessage(ws, { type: 'INBOX_ACKED', payload: { ids, removed } });
+  }
+
+  /**
+   * Validar token de autenticacao
+   */
+  private async validateAuthToken(params: TokenValidationParams): Promise<TokenValidationResult> {
+    const { token, oidUser } = params;
+
+    if (isSignedToken(token)) {
+      if (!WS_TOKEN_SECRET) {
+        log('error', 'Token assinado recebido, mas WS_TOKEN_SECRET nao esta configurado');
+        return { valid: false, reason: 'INVALID_TOKEN' };
+      }
+      const verified = verifyAuthToken(token, WS_TOKEN_SECRET);
+      if (!verified.ok) {
+        return { valid: false, reason: verified.reason };
+      }
+      if (verified.claims.sub !== oidUser) {
+        return { valid: false, reason: 'TOKEN_SUBJECT_MISMATCH' };
+      }
+      try {
+        const issuedAt = verified.claims.iat ? verified.claims.iat * 1000 : undefined;
+        if (await this.sessionRevocationManager.isRevoked(oidUser, verified.claims.sid, issuedAt)) {
+          return { valid: false, reason: 'SESSION_REVOKED' };
+        }
+      } catch (error) {
+        log('error', 'Erro ao verificar revogacao do token:', error);
+        return { valid: false, reason: 'VALIDATION_ERROR' };
+      }
+      return {
+        valid: true,
+        expiresAt: verified.claims.exp * 1000,
+        sessionId: verified.claims.sid,
+        scopes: verified.claims.scopes
+      };
+    }
+
+    if (LEGACY_TOKEN_UNTIL <= Date.now()) {
+      return { valid: false, reason: 'LEGACY_TOKEN_DISABLED' };
+    }
+
+    try {
+      // Token legado: gerado pelo Next.js e armazenado no Redis
+      const storedToken = await this.redis.get(`ws:token:${oidUser}`);
+
+      
+      if (!storedToken) {
+        return { valid: false, reason: 'TOKEN_NOT_FOUND' };
       }
       
       if (storedToken !== token) {
@@ -646,59 +1458,161 @@ export class SocialWebSocketServer {
    * Tratar desconexao
    */
   private handleDisconnect(ws: AuthenticatedWebSocket): void {
+    clearTimeout(ws.authTimer);
     if (ws.oidUser) {
+      const oidUser = ws.oidUser;
       // So remove do Map se a conexao atual for a mesma registrada
-      const currentConnection = this.clients.get(ws.oidUser);
-      if (currentConnection === ws) {
-        this.clients.delete(ws.oidUser);
-        log('info', `${ws.username || ws.oidUser} desconectado. Conexoes ativas: ${this.clients.size}`);
-        
-        // Remover presenca do Redis
-        this.redis.del(`ws:presence:${ws.oidUser}`).catch(() => {});
+      if (this.removeLocalSocket(ws)) {
+        log('info', `${ws.username || oidUser} desconectado. Conexoes ativas: ${this.countLocalSockets()}`);
+
+        if (ws.tabId && ws.connectionId) {
+          this.routingManager.removeSession(oidUser, ws.tabId, ws.connectionId).catch(() => {});
+        }
+
+        // Ainda ha outras abas deste usuario nesta instancia: continua online
+        if (this.clients.has(oidUser)) return;
+
+        // Remover rota desta instancia; presenca so sai se nenhuma outra instancia tiver o usuario.
+        // Um AUTH concluido nesse meio tempo mantem a rota.
+        this.routingManager
+          .unregister(oidUser)
+          .then(async (remaining) => {
+            if (!this.clients.has(oidUser)) return remaining;
+            await this.routingManager.register(oidUser);
+            return remaining + 1;
+          })
+          .then((remaining) => {
+            if (remaining === 0) {
+              setTimeout(() => {
+                this.handleLastConnectionClosed(oidUser).catch((err) => {
+                  log('warn', `Falha ao marcar ${oidUser} como offline`, err);
+                });
+              }, OFFLINE_GRACE_MS);
+            }
+          })
+          .catch(() => {});
       } else {
         log('debug', `Conexao antiga de ${ws.oidUser} fechada (ja foi substituida)`);
       }
     }
   }
 
+  /**
+   * Ultima conexao do jogador fechou: se ele nao reconectou durante a tolerancia,
+   * marca offline e avisa os amigos
+   */
+  private async handleLastConnectionClosed(oidUser: number): Promise<void> {
+    if (this.clients.has(oidUser) || (await this.routingManager.isOnline(oidUser))) return;
+    await this.presenceManager.markOffline(oidUser);
+    await this.broadcastPresence(oidUser);
+  }
+
+  /**
+   * TOKEN_REFRESH - Troca o token de um socket ja autenticado por um novo (mesmo oidUser),
+   * estendendo a conexao sem reconectar. Tambem migra sockets abertos com token legado.
+   */
+  private async handleTokenRefresh(ws: SessionWebSocket, payload: InboundPayload<'TOKEN_REFRESH'>): Promise<HandlerResult | void> {
+    const validation = await this.validateAuthToken({ token: payload.token, oidUser: ws.oidUser });
+    if (!validation.valid) {
+      log('warn', `TOKEN_REFRESH recusado para ${ws.oidUser} (${validation.reason || 'UNKNOWN'})`);
+      return this.fail(ws, 'ERROR', validation.reason || 'INVALID_TOKEN');
+    }
+
+    this.applyTokenClaims(ws, validation);
+    this.sendMessage(ws, { type: 'TOKEN_REFRESHED', payload: { expiresAt: ws.tokenExpiresAt } });
+    return { ok: true, data: { expiresAt: ws.tokenExpiresAt } };
+  }
+
+  // =========================
+  // USER SEARCH HANDLERS
+  // =========================
+
+  /**
+   * USER_SEARCH - Autocomplete de NickName para os convites (limitado pelo rate limit do tipo)
+   */
+  private async handleUserSearch(ws: SessionWebSocket, payload: InboundPayload<'USER_SEARCH'>): Promise<HandlerResult | void> {
+    const query = payload.query.trim();
+    if (query.length < USER_SEARCH_MIN_LENGTH) {
+      return this.fail(ws, 'ERROR', 'QUERY_TOO_SHORT');
+    }
+    try {
+      const results = await this.userSearchManager.search(query, { limit: payload.limit, searcherOidUser: ws.oidUser });
+      this.sendMessage(ws, { type: 'USER_SEARCH_RESULTS', payload: { query, results } });
+    } catch (err) {
+      const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
+      return this.fail(ws, 'ERROR', reason);
+    }
+  }
+
+  // =========================
+  // PRESENCE HANDLERS
+  // =========================
+
+  private async handlePresenceSet(ws: SessionWebSocket, payload: InboundPayload<'PRESENCE_SET'>): Promise<HandlerResult | void> {
+    const status = payload.status;
+    const changed = await this.presenceManager.setStatus(ws.oidUser, status);
+    this.sendMessage(ws, { type: 'PRESENCE_UPDATED', payload: { status } });
+    if (changed) {
+      await this.broadcastPresence(ws.oidUser);
+    }
+  }
+
+  /**
+   * Envia FRIEND_PRESENCE com o estado atual do jogador para todos os amigos aceitos
+   * (exceto os que silenciaram a presenca dele)
+   */
+  private async broadcastPresence(oidUser: number): Promise<void> {
+    const [presence, friendIds, mutedBy] = await Promise.all([
+      this.presenceManager.getPresence(oidUser),
+      this.friendManager.listFriendIds(oidUser),
+      this.friendPreferenceManager.listMutedBy(oidUser, 'PRESENCE')
+    ]);
+    for (const friendId of friendIds) {
+      if (mutedBy.has(friendId)) continue;
+      this.sendToPlayer(friendId, {
+        type: 'FRIEND_PRESENCE',
+        payload: {
+          oidUser,
+          online: presence.online,
+          status: presence.status,
+          lastSeen: presence.lastSeen
+        }
+      });
+    }
+  }
+
   // =========================
   // FRIEND HANDLERS
   // =========================
 
-  private async handleFriendSend(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleFriendSend(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_SEND'>): Promise<HandlerResult | void> {
     const targetOidUser = await this.resolveTargetUserIdByNickname(payload);
     if (!targetOidUser) {
-      return this.sendError(ws, 'TARGET_REQUIRED');
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
     }
     const result = await this.friendManager.sendRequest(ws.oidUser, targetOidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
     }
 
     this.sendMessage(ws, { type: 'FRIEND_REQUEST_SENT', payload: { targetOidUser } });
+    this.invalidateSuggestions(ws.oidUser, targetOidUser);
 
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      const requesterName = ws.username || (await this.getUsername(ws.oidUser));
-      this.sendMessage(targetClient, {
-        type: 'FRIEND_REQUEST',
-        payload: { requesterOidUser: ws.oidUser, requesterName }
-      });
-    }
+    const requesterName = ws.username || (await this.getUsername(ws.oidUser));
+    await this.sendToPlayerOrQueue(targetOidUser, {
+      type: 'FRIEND_REQUEST',
+      payload: { requesterOidUser: ws.oidUser, requesterName }
+    });
   }
 
-  private async handleFriendAccept(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const requesterOidUser = Number(payload?.requesterOidUser);
-    if (!requesterOidUser) {
-      return this.sendError(ws, 'REQUESTER_REQUIRED');
-    }
+  private async handleFriendAccept(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_ACCEPT'>): Promise<HandlerResult | void> {
+    const { requesterOidUser } = payload;
     const result = await this.friendManager.accept(requesterOidUser, ws.oidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
     }
 
+    this.invalidateSuggestions(ws.oidUser, requesterOidUser);
     const selfName = ws.username || (await this.getUsername(ws.oidUser));
     const requesterName = await this.getUsername(requesterOidUser);
 
@@ -707,126 +1621,381 @@ export class SocialWebSocketServer {
       payload: { oidUser: requesterOidUser, username: requesterName }
     });
 
-    const requesterClient = this.clients.get(requesterOidUser);
-    if (requesterClient && requesterClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(requesterClient, {
-        type: 'FRIEND_ACCEPTED',
-        payload: { oidUser: ws.oidUser, username: selfName }
-      });
-    }
+    this.sendToPlayer(requesterOidUser, {
+      type: 'FRIEND_ACCEPTED',
+      payload: { oidUser: ws.oidUser, username: selfName }
+    });
   }
 
-  private async handleFriendReject(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const requesterOidUser = Number(payload?.requesterOidUser);
-    if (!requesterOidUser) {
-      return this.sendError(ws, 'REQUESTER_REQUIRED');
-    }
+  private async handleFriendReject(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_REJECT'>): Promise<HandlerResult | void> {
+    const { requesterOidUser } = payload;
     const result = await this.friendManager.reject(requesterOidUser, ws.oidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
     }
+    this.invalidateSuggestions(ws.oidUser, requesterOidUser);
     this.sendMessage(ws, { type: 'FRIEND_REJECTED', payload: { requesterOidUser } });
   }
 
-  private async handleFriendRemove(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  /**
+   * FRIEND_CANCEL - O autor retira um pedido ainda pendente; o alvo e avisado
+   */
+  private async handleFriendCancel(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_CANCEL'>): Promise<HandlerResult | void> {
+    const targetOidUser = await this.resolveTargetUserId(payload);
+    if (!targetOidUser) {
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
+    }
+    const result = await this.friendManager.cancel(ws.oidUser, targetOidUser);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+
+    this.invalidateSuggestions(ws.oidUser, targetOidUser);
+    const cancelled: OutboundMessage = {
+      type: 'FRIEND_REQUEST_CANCELLED',
+      payload: { requesterOidUser: ws.oidUser, targetOidUser }
+    };
+    this.sendToPlayer(ws.oidUser, cancelled);
+    await this.sendToPlayerOrQueue(targetOidUser, cancelled);
+  }
+
+  private async handleFriendRemove(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_REMOVE'>): Promise<HandlerResult | void> {
     const targetOidUser = await this.resolveTargetUserId(payload);
     if (!targetOidUser) {
-      return this.sendError(ws, 'TARGET_REQUIRED');
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
     }
     const result = await this.friendManager.remove(ws.oidUser, targetOidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
     }
+    this.invalidateSuggestions(ws.oidUser, targetOidUser);
     this.sendMessage(ws, { type: 'FRIEND_REMOVED', payload: { oidUser: targetOidUser } });
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(targetClient, { type: 'FRIEND_REMOVED', payload: { oidUser: ws.oidUser } });
+    this.sendToPlayer(targetOidUser, { type: 'FRIEND_REMOVED', payload: { oidUser: ws.oidUser } });
+  }
+
+  /**
+   * FRIEND_BLOCK - Bloqueia um jogador. Desfaz a amizade e descarta convites de party entre os dois;
+   * o bloqueado so ve a amizade removida.
+   */
+  private async handleFriendBlock(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_BLOCK'>): Promise<HandlerResult | void> {
+    const targetOidUser = await this.resolveTargetUserId(payload);
+    if (!targetOidUser) {
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
+    }
+    const result = await this.friendManager.block(ws.oidUser, targetOidUser);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+
+    // removeInvite/removePendingBetween nao lancam erro (apenas registram a falha)
+    await this.partyManager.removeInvite(ws.oidUser, targetOidUser);
+    if (await this.quartetManager.removePendingBetween(ws.oidUser, targetOidUser)) {
+      this.sendToPlayer(ws.oidUser, { type: 'QUARTET_INVITE_REMOVED', payload: { oidUser: targetOidUser } });
+      this.sendToPlayer(targetOidUser, { type: 'QUARTET_INVITE_REMOVED', payload: { oidUser: ws.oidUser } });
+    }
+    this.invalidateSuggestions(ws.oidUser, targetOidUser);
+
+    this.sendToPlayer(ws.oidUser, { type: 'FRIEND_BLOCKED', payload: { oidUser: targetOidUser } });
+    if (result.wasFriend) {
+      this.sendToPlayer(targetOidUser, { type: 'FRIEND_REMOVED', payload: { oidUser: ws.oidUser } });
+    }
+  }
+
+  private async handleFriendUnblock(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_UNBLOCK'>): Promise<HandlerResult | void> {
+    const targetOidUser = await this.resolveTargetUserId(payload);
+    if (!targetOidUser) {
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
+    }
+    const result = await this.friendManager.unblock(ws.oidUser, targetOidUser);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
     }
+    this.invalidateSuggestions(ws.oidUser, targetOidUser);
+    this.sendToPlayer(ws.oidUser, { type: 'FRIEND_UNBLOCKED', payload: { oidUser: targetOidUser } });
   }
 
-  private async handleFriendList(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) {
-      return this.sendMessage(ws, {
-        type: 'FRIEND_ERROR',
-        payload: { reason: 'NOT_AUTHENTICATED' }
+  /**
+   * FRIEND_SUGGESTIONS - Sugestoes de amizade paginadas (quartetos, cla, partidas e amigos em comum)
+   */
+  private async handleFriendSuggestions(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_SUGGESTIONS'>): Promise<HandlerResult | void> {
+    try {
+      const page = await this.friendSuggestionManager.getSuggestions(ws.oidUser, {
+        offset: payload.offset,
+        limit: payload.limit
       });
+      this.sendMessage(ws, { type: 'FRIEND_SUGGESTIONS', payload: page });
+    } catch (err) {
+      const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
+      return this.fail(ws, 'FRIEND_ERROR', reason);
+    }
+  }
+
+  /**
+   * FRIEND_MUTUALS - Amigos em comum com outro jogador (ex.: ao avaliar um pedido pendente)
+   */
+  private async handleFriendMutuals(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_MUTUALS'>): Promise<HandlerResult | void> {
+    const targetOidUser = await this.resolveTargetUserId(payload);
+    if (!targetOidUser) {
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
+    }
+    if (targetOidUser === ws.oidUser) {
+      return this.fail(ws, 'FRIEND_ERROR', 'INVALID_TARGET');
+    }
+    if (await this.friendManager.isBlocked(ws.oidUser, targetOidUser)) {
+      return this.fail(ws, 'FRIEND_ERROR', 'BLOCKED');
+    }
+    try {
+      const mutuals = await this.friendManager.listMutualFriends(ws.oidUser, targetOidUser);
+      this.sendMessage(ws, { type: 'FRIEND_MUTUALS', payload: { oidUser: targetOidUser, mutuals } });
+    } catch (err) {
+      const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
+      return this.fail(ws, 'FRIEND_ERROR', reason);
     }
+  }
+
+  /**
+   * Descarta as sugestoes em cache dos envolvidos apos mudanca no vinculo entre eles
+   */
+  private invalidateSuggestions(...oidUsers: number[]): void {
+    for (const oidUser of oidUsers) {
+      this.friendSuggestionManager.invalidate(oidUser).catch(() => {});
+    }
+  }
+
+  private async handleFriendBlockList(ws: SessionWebSocket): Promise<HandlerResult | void> {
+    try {
+      const blocked = await this.friendManager.listBlocked(ws.oidUser);
+      this.sendMessage(ws, { type: 'FRIEND_BLOCK_LIST', payload: { blocked } });
+    } catch (err) {
+      const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
+      return this.fail(ws, 'FRIEND_ERROR', reason);
+    }
+  }
+
+  private async handleFriendList(ws: SessionWebSocket): Promise<HandlerResult | void> {
     try {
-      const friends = await this.friendManager.listFriends(ws.oidUser);
-      this.sendMessage(ws, { type: 'FRIEND_LIST', payload: { friends } });
+      const [friends, groups] = await Promise.all([
+        this.friendManager.listFriends(ws.oidUser),
+        this.friendPreferenceManager.listGroups(ws.oidUser)
+      ]);
+      this.sendMessage(ws, { type: 'FRIEND_LIST', payload: { friends, groups } });
     } catch (err) {
       const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
-      this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason } });
+      return this.fail(ws, 'FRIEND_ERROR', reason);
     }
   }
 
-  private async handleFriendPending(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) {
-      return this.sendMessage(ws, {
-        type: 'FRIEND_ERROR',
-        payload: { reason: 'NOT_AUTHENTICATED' }
+  // =========================
+  // FRIEND GROUPS / PREFERENCES
+  // =========================
+
+  private async handleFriendGroupCreate(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_GROUP_CREATE'>): Promise<HandlerResult | void> {
+    const result = await this.friendPreferenceManager.createGroup(ws.oidUser, payload.name);
+    if (!result.ok || !result.group) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+    await this.sendFriendGroups(ws);
+    return { ok: true, data: { groupId: result.group.id } };
+  }
+
+  private async handleFriendGroupRename(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_GROUP_RENAME'>): Promise<HandlerResult | void> {
+    const result = await this.friendPreferenceManager.renameGroup(ws.oidUser, payload.groupId, payload.name);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+    await this.sendFriendGroups(ws);
+  }
+
+  /**
+   * FRIEND_GROUP_DELETE - Remove o grupo; os amigos dele ficam sem grupo (o cliente recarrega a lista)
+   */
+  private async handleFriendGroupDelete(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_GROUP_DELETE'>): Promise<HandlerResult | void> {
+    const result = await this.friendPreferenceManager.deleteGroup(ws.oidUser, payload.groupId);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+    await this.sendFriendGroups(ws);
+  }
+
+  private async handleFriendSetGroup(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_SET_GROUP'>): Promise<HandlerResult | void> {
+    return this.updateFriendPreferences(ws, payload, (friendId) =>
+      this.friendPreferenceManager.setGroup(ws.oidUser, friendId, payload.groupId ?? null)
+    );
+  }
+
+  private async handleFriendSetFavorite(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_SET_FAVORITE'>): Promise<HandlerResult | void> {
+    return this.updateFriendPreferences(ws, payload, (friendId) =>
+      this.friendPreferenceManager.setFavorite(ws.oidUser, friendId, payload.favorite)
+    );
+  }
+
+  /**
+   * FRIEND_SET_MUTED - Substitui as notificacoes silenciadas vindas do amigo ([] = nenhuma)
+   */
+  private async handleFriendSetMuted(ws: SessionWebSocket, payload: InboundPayload<'FRIEND_SET_MUTED'>): Promise<HandlerResult | void> {
+    return this.updateFriendPreferences(ws, payload, (friendId) =>
+      this.friendPreferenceManager.setMuted(ws.oidUser, friendId, payload.muted)
+    );
+  }
+
+  /**
+   * Aplica uma alteracao de preferencia sobre um amigo aceito e envia o estado resultante
+   * para todas as abas de quem alterou
+   */
+  private async updateFriendPreferences(
+    ws: SessionWebSocket,
+    payload: TargetRefPayload,
+    update: (friendId: number) => Promise<{ ok: boolean; reason?: string }>
+  ): Promise<HandlerResult | void> {
+    const friendId = await this.resolveTargetUserId(payload);
+    if (!friendId) {
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
+    }
+    if (!(await this.friendManager.areFriends(ws.oidUser, friendId))) {
+      return this.fail(ws, 'FRIEND_ERROR', 'NOT_FRIENDS');
+    }
+    const result = await update(friendId);
+    if (!result.ok) {
+      return this.fail(ws, 'FRIEND_ERROR', result.reason);
+    }
+
+    try {
+      const preferences = await this.friendPreferenceManager.getPreferencesFor(ws.oidUser, friendId);
+      this.sendToPlayer(ws.oidUser, {
+        type: 'FRIEND_PREFERENCES_UPDATED',
+        payload: { oidUser: friendId, ...preferences }
       });
+    } catch (err) {
+      log('warn', `Falha ao reler preferencias de ${ws.oidUser} sobre ${friendId}`, err);
+    }
+  }
+
+  private async sendFriendGroups(ws: SessionWebSocket): Promise<void> {
+    try {
+      const groups = await this.friendPreferenceManager.listGroups(ws.oidUser);
+      this.sendToPlayer(ws.oidUser, { type: 'FRIEND_GROUPS', payload: { groups } });
+    } catch (err) {
+      log('warn', `Falha ao enviar grupos de amigos de ${ws.oidUser}`, err);
     }
+  }
+
+  private async handleFriendPending(ws: SessionWebSocket): Promise<HandlerResult | void> {
     try {
-      const pending = await this.friendManager.listPending(ws.oidUser);
-      this.sendMessage(ws, { type: 'FRIEND_PENDING', payload: { pending } });
+      const { incoming, outgoing } = await this.friendManager.listPending(ws.oidUser);
+      // pending: formato antigo (lista unica), mantido por uma versao ate os clientes migrarem
+      this.sendMessage(ws, { type: 'FRIEND_PENDING', payload: { incoming, outgoing, pending: [...incoming, ...outgoing] } });
     } catch (err) {
       const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
-      this.sendMessage(ws, { type: 'FRIEND_ERROR', payload: { reason } });
+      return this.fail(ws, 'FRIEND_ERROR', reason);
+    }
+  }
+
+  // =========================
+  // DIRECT MESSAGE HANDLERS
+  // =========================
+
+  private async handleDmSend(ws: SessionWebSocket, payload: InboundPayload<'DM_SEND'>): Promise<HandlerResult | void> {
+    const { targetOidUser, clientMessageId } = payload;
+
+    const result = await this.directMessageManager.send(ws.oidUser, targetOidUser, payload.text);
+    if (!result.ok || !result.message) {
+      return this.fail(ws, 'DM_ERROR', result.reason, { clientMessageId });
+    }
+
+    // Confirma para todas as abas do remetente e entrega ao destinatario
+    this.sendToPlayer(ws.oidUser, { type: 'DM_SENT', payload: { message: result.message, clientMessageId } });
+    // Mensagem de amigo silenciado e entregue, mas o cliente nao deve notificar
+    const senderName = ws.username || (await this.getUsername(ws.oidUser));
+    const muted = await this.friendPreferenceManager.isMuted(targetOidUser, ws.oidUser, 'DM');
+    this.sendToPlayer(targetOidUser, {
+      type: 'DM_RECEIVED',
+      payload: { message: result.message, senderName, muted }
+    });
+    return { ok: true, data: { messageId: result.message.id } };
+  }
+
+  private async handleDmHistory(ws: SessionWebSocket, payload: InboundPayload<'DM_HISTORY'>): Promise<HandlerResult | void> {
+    const { targetOidUser } = payload;
+    try {
+      const { messages, hasMore } = await this.directMessageManager.history(ws.oidUser, targetOidUser, {
+        beforeId: payload.beforeId,
+        limit: payload.limit
+      });
+      this.sendMessage(ws, { type: 'DM_HISTORY', payload: { targetOidUser, messages, hasMore } });
+    } catch {
+      return this.fail(ws, 'DM_ERROR', 'INTERNAL_ERROR');
     }
   }
 
+  private async handleDmRead(ws: SessionWebSocket, payload: InboundPayload<'DM_READ'>): Promise<HandlerResult | void> {
+    const { targetOidUser, upToId } = payload;
+    const updated = await this.directMessageManager.markRead(ws.oidUser, targetOidUser, upToId);
+
+    this.sendToPlayer(ws.oidUser, { type: 'DM_READ', payload: { targetOidUser, upToId, updated } });
+    if (updated > 0) {
+      this.sendToPlayer(targetOidUser, {
+        type: 'DM_READ_RECEIPT',
+        payload: { readerOidUser: ws.oidUser, upToId }
+      });
+    }
+  }
+
+  private async handleDmTyping(ws: SessionWebSocket, payload: InboundPayload<'DM_TYPING'>): Promise<HandlerResult | void> {
+    const { targetOidUser } = payload;
+    if (targetOidUser === ws.oidUser) return;
+    if (await this.friendManager.isBlocked(ws.oidUser, targetOidUser)) {
+      return this.fail(ws, 'DM_ERROR', 'BLOCKED');
+    }
+    const typing = payload.typing !== false;
+
+    // Amizade conferida em todos os eventos; apenas comecar a digitar passa pelo throttle
+    if (!(await this.directMessageManager.shouldForwardTyping(ws.oidUser, targetOidUser, typing))) return;
+
+    this.sendToPlayer(targetOidUser, { type: 'DM_TYPING', payload: { oidUser: ws.oidUser, typing } });
+  }
+
   // =========================
   // QUARTET HANDLERS
   // =========================
 
-  private async handleQuartetInviteSend(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleQuartetInviteSend(ws: SessionWebSocket, payload: InboundPayload<'QUARTET_INVITE_SEND'>): Promise<HandlerResult | void> {
     const targetOidUser = await this.resolveTargetUserIdByNickname(payload);
     if (!targetOidUser) {
-      return this.sendError(ws, 'TARGET_REQUIRED');
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
     }
 
-    const rawTargetPos = Number(payload?.targetPos);
-
-    // Validacao: targetPos eh OBRIGATORIO e deve ser 1, 2 ou 3
-    if (rawTargetPos !== 1 && rawTargetPos !== 2 && rawTargetPos !== 3) {
-      return this.sendMessage(ws, {
-        type: 'QUARTET_ERROR',
-        payload: { reason: 'INVALID_POSITION' }
-      });
+    if (await this.friendManager.isBlocked(ws.oidUser, targetOidUser)) {
+      return this.fail(ws, 'QUARTET_ERROR', 'BLOCKED');
     }
 
-    const targetPos = rawTargetPos as 1 | 2 | 3;
+    // targetPos (1, 2 ou 3) ja validado no schema da mensagem
+    const { targetPos } = payload;
 
     const result = await this.quartetManager.sendInvite(ws.oidUser, targetOidUser, targetPos);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'QUARTET_ERROR', result.reason);
     }
 
     this.sendMessage(ws, { type: 'QUARTET_INVITE_SENT', payload: { targetOidUser, targetPos } });
 
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      const requesterName = ws.username || (await this.getUsername(ws.oidUser));
-      this.sendMessage(targetClient, {
-        type: 'QUARTET_INVITE_REQUEST',
-        payload: { requesterOidUser: ws.oidUser, requesterName, targetPos }
-      });
-    }
+    // Convite de amigo silenciado fica apenas na lista de convites do quarteto
+    if (await this.friendPreferenceManager.isMuted(targetOidUser, ws.oidUser, 'QUARTET_INVITE')) return;
+
+    const requesterName = ws.username || (await this.getUsername(ws.oidUser));
+    await this.sendToPlayerOrQueue(targetOidUser, {
+      type: 'QUARTET_INVITE_REQUEST',
+      payload: { requesterOidUser: ws.oidUser, requesterName, targetPos }
+    });
   }
 
-  private async handleQuartetInviteAccept(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const requesterOidUser = Number(payload?.requesterOidUser);
-    if (!requesterOidUser) {
-      return this.sendError(ws, 'REQUESTER_REQUIRED');
+  private async handleQuartetInviteAccept(ws: SessionWebSocket, payload: InboundPayload<'QUARTET_INVITE_ACCEPT'>): Promise<HandlerResult | void> {
+    const { requesterOidUser } = payload;
+    if (await this.friendManager.isBlocked(ws.oidUser, requesterOidUser)) {
+      return this.fail(ws, 'QUARTET_ERROR', 'BLOCKED');
     }
     const result = await this.quartetManager.acceptInvite(requesterOidUser, ws.oidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'QUARTET_ERROR', result.reason);
     }
 
     const selfName = ws.username || (await this.getUsername(ws.oidUser));
@@ -837,74 +2006,51 @@ export class SocialWebSocketServer {
       payload: { oidUser: requesterOidUser, username: requesterName }
     });
 
-    const requesterClient = this.clients.get(requesterOidUser);
-    if (requesterClient && requesterClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(requesterClient, {
-        type: 'QUARTET_INVITE_ACCEPTED',
-        payload: { oidUser: ws.oidUser, username: selfName }
-      });
-    }
+    this.sendToPlayer(requesterOidUser, {
+      type: 'QUARTET_INVITE_ACCEPTED',
+      payload: { oidUser: ws.oidUser, username: selfName }
+    });
   }
 
-  private async handleQuartetInviteReject(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const requesterOidUser = Number(payload?.requesterOidUser);
-    if (!requesterOidUser) {
-      return this.sendError(ws, 'REQUESTER_REQUIRED');
-    }
+  private async handleQuartetInviteReject(ws: SessionWebSocket, payload: InboundPayload<'QUARTET_INVITE_REJECT'>): Promise<HandlerResult | void> {
+    const { requesterOidUser } = payload;
     const result = await this.quartetManager.rejectInvite(requesterOidUser, ws.oidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'QUARTET_ERROR', result.reason);
     }
     this.sendMessage(ws, { type: 'QUARTET_INVITE_REJECTED', payload: { requesterOidUser } });
   }
 
-  private async handleQuartetInviteRemove(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleQuartetInviteRemove(ws: SessionWebSocket, payload: InboundPayload<'QUARTET_INVITE_REMOVE'>): Promise<HandlerResult | void> {
     const targetOidUser = await this.resolveTargetUserId(payload);
     if (!targetOidUser) {
-      return this.sendError(ws, 'TARGET_REQUIRED');
+      return this.fail(ws, 'ERROR', 'TARGET_REQUIRED');
     }
     const result = await this.quartetManager.removeInvite(ws.oidUser, targetOidUser);
     if (!result.ok) {
-      return this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason: result.reason } });
+      return this.fail(ws, 'QUARTET_ERROR', result.reason);
     }
     this.sendMessage(ws, { type: 'QUARTET_INVITE_REMOVED', payload: { oidUser: targetOidUser } });
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(targetClient, { type: 'QUARTET_INVITE_REMOVED', payload: { oidUser: ws.oidUser } });
-    }
+    this.sendToPlayer(targetOidUser, { type: 'QUARTET_INVITE_REMOVED', payload: { oidUser: ws.oidUser } });
   }
 
-  private async handleQuartetListAccepted(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) {
-      return this.sendMessage(ws, {
-        type: 'QUARTET_ERROR',
-        payload: { reason: 'NOT_AUTHENTICATED' }
-      });
-    }
+  private async handleQuartetListAccepted(ws: SessionWebSocket): Promise<HandlerResult | void> {
     try {
       const accepted = await this.quartetManager.listAcceptedInvites(ws.oidUser);
       this.sendMessage(ws, { type: 'QUARTET_LIST_ACCEPTED', payload: { accepted } });
     } catch (err) {
       const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
-      this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason } });
+      return this.fail(ws, 'QUARTET_ERROR', reason);
     }
   }
 
-  private async handleQuartetListPending(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) {
-      return this.sendMessage(ws, {
-        type: 'QUARTET_ERROR',
-        payload: { reason: 'NOT_AUTHENTICATED' }
-      });
-    }
+  private async handleQuartetListPending(ws: SessionWebSocket): Promise<HandlerResult | void> {
     try {
       const pending = await this.quartetManager.listPendingInvites(ws.oidUser);
       this.sendMessage(ws, { type: 'QUARTET_LIST_PENDING', payload: { pending } });
     } catch (err) {
       const reason = (err as Error).message === 'DATABASE_TIMEOUT' ? 'DATABASE_TIMEOUT' : 'INTERNAL_ERROR';
-      this.sendMessage(ws, { type: 'QUARTET_ERROR', payload: { reason } });
+      return this.fail(ws, 'QUARTET_ERROR', reason);
     }
   }
 
@@ -912,8 +2058,7 @@ export class SocialWebSocketServer {
   // PARTY HANDLERS
   // =========================
 
-  private async handlePartyCreate(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handlePartyCreate(ws: SessionWebSocket, payload: InboundPayload<'PARTY_CREATE'>): Promise<HandlerResult | void> {
     const existingPartyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
     if (existingPartyId) {
       const party = await this.partyManager.getParty(existingPartyId);
@@ -922,85 +2067,88 @@ export class SocialWebSocketServer {
         return;
       }
     }
-    const party = await this.partyManager.createParty(ws.oidUser);
-    this.sendMessage(ws, { type: 'PARTY_UPDATED', payload: { party } });
-  }
-
-  private async handlePartyInvite(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const targetOidUser = Number(payload?.targetOidUser);
-    if (!targetOidUser) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'TARGET_REQUIRED' } });
+    const result = await this.partyManager.createParty(ws.oidUser, {
+      mode: payload.mode,
+      maxSize: payload.maxSize
+    });
+    if (!result.ok || !result.party) {
+      return this.fail(ws, 'PARTY_ERROR', result.reason);
     }
+    this.sendMessage(ws, { type: 'PARTY_UPDATED', payload: { party: result.party } });
+    return { ok: true, data: { partyId: result.party.id } };
+  }
 
-    const deletePairKey = async (id1: number, id2: number) => {
-      try {
-        const a = Math.min(id1, id2);
-        const b = Math.max(id1, id2);
-        await this.redis.del(`party:invitepair:${a}:${b}`);
-      } catch (err) {
-        log('warn', `Falha ao limpar chave de convite (${id1}, ${id2})`, err);
-      }
-    };
+  private async handlePartyInvite(ws: SessionWebSocket, payload: InboundPayload<'PARTY_INVITE'>): Promise<HandlerResult | void> {
+    const { targetOidUser } = payload;
 
-    const partyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
-    if (!partyId) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NO_PARTY' } });
+    const check = await this.partyManager.checkCanInvite(ws.oidUser);
+    if (!check.ok || !check.party) {
+      return this.fail(ws, 'PARTY_ERROR', check.reason);
     }
-    const party = await this.partyManager.getParty(partyId);
-    if (!party || party.leaderId !== ws.oidUser) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NOT_LEADER' } });
+
+    if (await this.friendManager.isBlocked(ws.oidUser, targetOidUser)) {
+      return this.fail(ws, 'PARTY_ERROR', 'BLOCKED');
     }
-    if (party.members.length >= 2) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'PARTY_FULL' } });
+
+    const targetOnline = await this.routingManager.isOnline(targetOidUser);
+    if (!targetOnline) {
+      return this.fail(ws, 'PARTY_ERROR', 'TARGET_OFFLINE');
     }
 
-    // Evita convites duplicados
-    const requesterId = ws.oidUser as number;
-    const cleanupInvitePair = async () => deletePairKey(requesterId, targetOidUser);
-    try {
-      const a = Math.min(requesterId, targetOidUser);
-      const b = Math.max(requesterId, targetOidUser);
-      const pairKey = `party:invitepair:${a}:${b}`;
-      const exists = await this.redis.get(pairKey);
-      if (exists) {
-        return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'INVITE_ALREADY_SENT' } });
-      }
-      await this.redis.set(pairKey, '1', { EX: 300 }); // 5 min
-    } catch (err) {
-      log('warn', `Falha ao registrar par de convite (${ws.oidUser}, ${targetOidUser})`, err);
+    const inviterName = ws.username || (await this.getUsername(ws.oidUser));
+    const created = await this.partyManager.createInvite(check.party.id, ws.oidUser, inviterName, targetOidUser);
+    if (!created.ok || !created.invite) {
+      return this.fail(ws, 'PARTY_ERROR', created.reason);
     }
 
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      const inviterName = ws.username || (await this.getUsername(ws.oidUser));
-      this.sendMessage(targetClient, {
+    // Convite de amigo silenciado fica apenas em PARTY_INVITE_LIST
+    if (!(await this.friendPreferenceManager.isMuted(targetOidUser, ws.oidUser, 'PARTY_INVITE'))) {
+      this.sendToPlayer(targetOidUser, {
         type: 'PARTY_INVITE',
-        payload: { partyId, inviterOidUser: ws.oidUser, inviterName }
+        payload: this.toPartyInvitePayload(created.invite)
       });
-      this.sendMessage(ws, { type: 'PARTY_INVITE_SENT', payload: { targetOidUser } });
-    } else {
-      await cleanupInvitePair();
-      this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'TARGET_OFFLINE' } });
     }
+    this.sendMessage(ws, {
+      type: 'PARTY_INVITE_SENT',
+      payload: { targetOidUser, expiresAt: created.invite.expiresAt }
+    });
   }
 
-  private async handlePartyAcceptInvite(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const partyId = payload?.partyId as string;
-    if (!partyId) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'PARTY_ID_REQUIRED' } });
+  private async handlePartyAcceptInvite(ws: SessionWebSocket, payload: InboundPayload<'PARTY_ACCEPT_INVITE'>): Promise<HandlerResult | void> {
+    const { partyId } = payload;
+
+    const existing = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
+    if (existing === partyId) {
+      const current = await this.partyManager.getParty(partyId);
+      if (current) {
+        this.sendMessage(ws, { type: 'PARTY_UPDATED', payload: { party: current } });
+      }
+      return;
+    }
+
+    // Apenas convites pendentes (nao vencidos) para esta party podem ser aceitos.
+    // Tudo e validado antes de sair da party atual: um aceite invalido nao pode derrubar o jogador dela.
+    const { incoming } = await this.partyManager.listInvites(ws.oidUser);
+    const invite = incoming.find((i) => i.partyId === partyId);
+    if (!invite) {
+      return this.fail(ws, 'PARTY_ERROR', 'INVITE_NOT_FOUND');
+    }
+    const target = await this.partyManager.getParty(partyId);
+    if (!target) {
+      return this.fail(ws, 'PARTY_ERROR', 'PARTY_NOT_FOUND');
+    }
+    if (this.partyManager.isFull(target)) {
+      return this.fail(ws, 'PARTY_ERROR', 'PARTY_FULL');
     }
 
     // Se ja estiver em outra party, remove antes
-    const existing = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
-    if (existing && existing !== partyId) {
+    if (existing) {
       const oldPartyState = await this.partyManager.getParty(existing);
       if (oldPartyState && oldPartyState.leaderId === ws.oidUser) {
-        for (const memberId of oldPartyState.members) {
+        const deleted = await this.partyManager.deleteParty(existing);
+        for (const memberId of (deleted ?? oldPartyState).members) {
           this.sendToPlayer(memberId, { type: 'PARTY_LEFT', payload: { partyId: existing } });
         }
-        await this.partyManager.deleteParty(existing);
       } else {
         const oldParty = await this.partyManager.removeMember(existing, ws.oidUser);
         this.sendMessage(ws, { type: 'PARTY_LEFT', payload: { partyId: existing } });
@@ -1008,143 +2156,121 @@ export class SocialWebSocketServer {
           this.broadcastPartyUpdate(oldParty);
         }
       }
-    } else if (existing === partyId) {
-      const current = await this.partyManager.getParty(partyId);
-      if (current) {
-        this.sendMessage(ws, { type: 'PARTY_UPDATED', payload: { party: current } });
-      }
-      return;
     }
 
-    const party = await this.partyManager.addMember(partyId, ws.oidUser);
-    if (!party) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'PARTY_NOT_FOUND' } });
-    }
-    if (party.members.length > 2) {
-      await this.partyManager.removeMember(partyId, ws.oidUser);
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'PARTY_FULL' } });
+    const joined = await this.partyManager.addMember(partyId, ws.oidUser);
+    if (!joined.ok || !joined.party) {
+      return this.fail(ws, 'PARTY_ERROR', joined.reason);
     }
+    const party = joined.party;
 
-    // Limpa chave de convite apos aceitar
-    try {
-      const a = Math.min(party.leaderId, ws.oidUser);
-      const b = Math.max(party.leaderId, ws.oidUser);
-      await this.redis.del(`party:invitepair:${a}:${b}`);
-    } catch (err) {
-      log('warn', `Falha ao limpar par de convite ao aceitar (${party.leaderId}, ${ws.oidUser})`, err);
-    }
+    // Remove o convite apos aceitar
+    await this.partyManager.removeInvite(invite.inviterId, ws.oidUser);
     this.broadcastPartyUpdate(party);
   }
 
-  private async handlePartyDeclineInvite(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const inviterOidUser = Number(payload?.inviterOidUser);
-    if (!inviterOidUser) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'INVITER_REQUIRED' } });
-    }
+  private async handlePartyDeclineInvite(ws: SessionWebSocket, payload: InboundPayload<'PARTY_DECLINE_INVITE'>): Promise<HandlerResult | void> {
+    const { inviterOidUser } = payload;
 
-    // Limpa o par de convite
-    try {
-      const a = Math.min(inviterOidUser, ws.oidUser);
-      const b = Math.max(inviterOidUser, ws.oidUser);
-      await this.redis.del(`party:invitepair:${a}:${b}`);
-    } catch (err) {
-      log('warn', `Falha ao limpar par de convite ao recusar (${inviterOidUser}, ${ws.oidUser})`, err);
-    }
+    // Remove o convite
+    await this.partyManager.removeInvite(inviterOidUser, ws.oidUser);
 
-    const inviterClient = this.clients.get(inviterOidUser);
-    if (inviterClient && inviterClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(inviterClient, {
-        type: 'PARTY_INVITE_DECLINED',
-        payload: { targetOidUser: ws.oidUser }
-      });
-    }
+    this.sendToPlayer(inviterOidUser, {
+      type: 'PARTY_INVITE_DECLINED',
+      payload: { targetOidUser: ws.oidUser }
+    });
   }
 
-  private async handlePartyLeave(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handlePartyInviteList(ws: SessionWebSocket): Promise<HandlerResult | void> {
+    const { incoming, outgoing } = await this.partyManager.listInvites(ws.oidUser);
+    this.sendMessage(ws, { type: 'PARTY_INVITE_LIST', payload: { incoming, outgoing } });
+  }
+
+  private toPartyInvitePayload(invite: PartyInvite) {
+    return {
+      partyId: invite.partyId,
+      inviterOidUser: invite.inviterId,
+      inviterName: invite.inviterName,
+      expiresAt: invite.expiresAt
+    };
+  }
+
+  private async handlePartyLeave(ws: SessionWebSocket): Promise<HandlerResult | void> {
     const partyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
     if (!partyId) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NO_PARTY' } });
+      return this.fail(ws, 'PARTY_ERROR', 'NO_PARTY');
     }
 
     await this.clearPartyInvitesForUser(ws.oidUser);
     await this.removeFromPartyAndNotify(partyId, ws.oidUser, 'left');
   }
 
-  private async handlePartyKick(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const targetOidUser = Number(payload?.targetOidUser);
-    if (!targetOidUser) return;
+  private async handlePartyKick(ws: SessionWebSocket, payload: InboundPayload<'PARTY_KICK'>): Promise<HandlerResult | void> {
+    const { targetOidUser } = payload;
     const partyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
     if (!partyId) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NO_PARTY' } });
+      return this.fail(ws, 'PARTY_ERROR', 'NO_PARTY');
     }
     const party = await this.partyManager.getParty(partyId);
     if (!party || party.leaderId !== ws.oidUser) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NOT_LEADER' } });
+      return this.fail(ws, 'PARTY_ERROR', 'NOT_LEADER');
     }
 
-    // Limpa o par de convite
-    try {
-      const a = Math.min(ws.oidUser, targetOidUser);
-      const b = Math.max(ws.oidUser, targetOidUser);
-      await this.redis.del(`party:invitepair:${a}:${b}`);
-    } catch (err) {
-      log('warn', `Falha ao limpar par de convite ao kick (${ws.oidUser}, ${targetOidUser})`, err);
-    }
+    // Remove o convite entre lider e expulso
+    await this.partyManager.removeInvite(ws.oidUser, targetOidUser);
 
     this.sendMessage(ws, { type: 'PARTY_KICKED', payload: { oidUser: targetOidUser } });
     await this.removeFromPartyAndNotify(partyId, targetOidUser, 'kicked', ws.oidUser);
   }
 
-  private async handlePartyTransferLead(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
-    const targetOidUser = Number(payload?.targetOidUser);
-    if (!targetOidUser) return;
+  private async handlePartyTransferLead(ws: SessionWebSocket, payload: InboundPayload<'PARTY_TRANSFER_LEAD'>): Promise<HandlerResult | void> {
+    const { targetOidUser } = payload;
     const partyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
     if (!partyId) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NO_PARTY' } });
+      return this.fail(ws, 'PARTY_ERROR', 'NO_PARTY');
     }
     const party = await this.partyManager.getParty(partyId);
     if (!party || party.leaderId !== ws.oidUser) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'NOT_LEADER' } });
+      return this.fail(ws, 'PARTY_ERROR', 'NOT_LEADER');
     }
-    const updated = await this.partyManager.transferLead(partyId, targetOidUser);
-    if (!updated) {
-      return this.sendMessage(ws, { type: 'PARTY_ERROR', payload: { reason: 'TRANSFER_FAILED' } });
+    const updated = await this.partyManager.transferLead(partyId, targetOidUser, ws.oidUser);
+    if (!updated.ok || !updated.party) {
+      const reason = updated.reason === 'NOT_LEADER' ? 'NOT_LEADER' : 'TRANSFER_FAILED';
+      return this.fail(ws, 'PARTY_ERROR', reason);
     }
-    this.broadcastPartyUpdate(updated);
+    this.broadcastPartyUpdate(updated.party);
+  }
+
+  private async handlePartyChatSend(ws: SessionWebSocket, payload: InboundPayload<'PARTY_CHAT_SEND'>): Promise<HandlerResult | void> {
+    const partyId = await this.partyManager.getPartyIdByPlayer(ws.oidUser);
+    if (!partyId) {
+      return this.fail(ws, 'PARTY_ERROR', 'NO_PARTY');
+    }
+    const senderName = ws.username || (await this.getUsername(ws.oidUser));
+    const result = await this.partyManager.sendChatMessage(partyId, ws.oidUser, senderName, payload.text);
+    if (!result.ok || !result.party || !result.message) {
+      return this.fail(ws, 'PARTY_ERROR', result.reason);
+    }
+    this.broadcastToParty(result.party, { type: 'PARTY_CHAT_MESSAGE', payload: { message: result.message } });
   }
 
   // =========================
   // TOURNAMENT HANDLERS
   // =========================
 
-  private async handleTournamentInviteSend(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleTournamentInviteSend(ws: SessionWebSocket, payload: InboundPayload<'TOURNAMENT_INVITE_SEND'>): Promise<HandlerResult | void> {
 
     const { tournamentId, targetNickname, position } = payload;
 
-    if (!tournamentId || !targetNickname || !position) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'MISSING_PARAMS' }
-      });
-    }
-
     const result = await this.tournamentInviteManager.sendInvite(
       ws.oidUser,
-      Number(tournamentId),
-      String(targetNickname).trim(),
-      Number(position)
+      tournamentId,
+      targetNickname.trim(),
+      position
     );
 
     if (!result.ok) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: result.reason }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', result.reason);
     }
 
     // Notificar o líder que o convite foi enviado
@@ -1162,52 +2288,35 @@ export class SocialWebSocketServer {
     const inviteData = await this.tournamentInviteManager.getInviteData(result.inviteId!);
     if (!inviteData) return;
 
-    // Notificar o target via WebSocket (se estiver online)
-    const targetOidUser = inviteData.oidUser;
-    const targetClient = this.clients.get(targetOidUser);
-    if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(targetClient, {
-        type: 'TOURNAMENT_INVITE_RECEIVED',
-        payload: {
-          inviteId: inviteData.inviteId,
-          tournamentId: inviteData.tournamentId,
-          tournamentName: inviteData.tournamentName,
-          inscricaoId: inviteData.inscricaoId,
-          leaderOidUser: inviteData.leaderOidUser,
-          leaderNickname: inviteData.leaderNickname,
-          position: inviteData.position
-        }
-      });
-    }
+    // Notificar o target via WebSocket (ou guardar na inbox se estiver offline)
+    await this.sendToPlayerOrQueue(inviteData.oidUser, {
+      type: 'TOURNAMENT_INVITE_RECEIVED',
+      payload: {
+        inviteId: inviteData.inviteId,
+        tournamentId: inviteData.tournamentId,
+        tournamentName: inviteData.tournamentName,
+        inscricaoId: inviteData.inscricaoId,
+        leaderOidUser: inviteData.leaderOidUser,
+        leaderNickname: inviteData.leaderNickname,
+        position: inviteData.position
+      }
+    });
   }
 
-  private async handleTournamentInviteAccept(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleTournamentInviteAccept(ws: SessionWebSocket, payload: InboundPayload<'TOURNAMENT_INVITE_ACCEPT'>): Promise<HandlerResult | void> {
 
-    const inviteId = Number(payload?.inviteId);
-    if (!inviteId) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INVITE_ID_REQUIRED' }
-      });
-    }
+    const { inviteId } = payload;
 
     // Buscar dados do convite antes de aceitar (para notificar o líder)
     const inviteData = await this.tournamentInviteManager.getInviteData(inviteId);
     if (!inviteData) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INVITE_NOT_FOUND' }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', 'INVITE_NOT_FOUND');
     }
 
     const result = await this.tournamentInviteManager.acceptInvite(inviteId, ws.oidUser);
 
     if (!result.ok) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: result.reason }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', result.reason);
     }
 
     // Notificar o jogador que aceitou
@@ -1217,47 +2326,31 @@ export class SocialWebSocketServer {
     });
 
     // Notificar o líder que o convite foi aceito
-    const leaderClient = this.clients.get(inviteData.leaderOidUser);
-    if (leaderClient && leaderClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(leaderClient, {
-        type: 'TOURNAMENT_INVITE_ACCEPTED',
-        payload: {
-          inviteId,
-          position: inviteData.position,
-          playerNickname: inviteData.nickname,
-          playerOidUser: inviteData.oidUser
-        }
-      });
-    }
+    this.sendToPlayer(inviteData.leaderOidUser, {
+      type: 'TOURNAMENT_INVITE_ACCEPTED',
+      payload: {
+        inviteId,
+        position: inviteData.position,
+        playerNickname: inviteData.nickname,
+        playerOidUser: inviteData.oidUser
+      }
+    });
   }
 
-  private async handleTournamentInviteReject(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleTournamentInviteReject(ws: SessionWebSocket, payload: InboundPayload<'TOURNAMENT_INVITE_REJECT'>): Promise<HandlerResult | void> {
 
-    const inviteId = Number(payload?.inviteId);
-    if (!inviteId) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INVITE_ID_REQUIRED' }
-      });
-    }
+    const { inviteId } = payload;
 
     // Buscar dados do convite antes de recusar (para notificar o líder)
     const inviteData = await this.tournamentInviteManager.getInviteData(inviteId);
     if (!inviteData) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INVITE_NOT_FOUND' }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', 'INVITE_NOT_FOUND');
     }
 
     const result = await this.tournamentInviteManager.rejectInvite(inviteId, ws.oidUser);
 
     if (!result.ok) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: result.reason }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', result.reason);
     }
 
     // Notificar o jogador que recusou
@@ -1267,30 +2360,20 @@ export class SocialWebSocketServer {
     });
 
     // Notificar o líder que o convite foi recusado
-    const leaderClient = this.clients.get(inviteData.leaderOidUser);
-    if (leaderClient && leaderClient.readyState === WebSocket.OPEN) {
-      this.sendMessage(leaderClient, {
-        type: 'TOURNAMENT_INVITE_REJECTED',
-        payload: {
-          inviteId,
-          position: inviteData.position,
-          playerNickname: inviteData.nickname,
-          playerOidUser: inviteData.oidUser
-        }
-      });
-    }
+    this.sendToPlayer(inviteData.leaderOidUser, {
+      type: 'TOURNAMENT_INVITE_REJECTED',
+      payload: {
+        inviteId,
+        position: inviteData.position,
+        playerNickname: inviteData.nickname,
+        playerOidUser: inviteData.oidUser
+      }
+    });
   }
 
-  private async handleTournamentInviteRemove(ws: AuthenticatedWebSocket, payload: any): Promise<void> {
-    if (!ws.oidUser) return;
+  private async handleTournamentInviteRemove(ws: SessionWebSocket, payload: InboundPayload<'TOURNAMENT_INVITE_REMOVE'>): Promise<HandlerResult | void> {
 
-    const inviteId = Number(payload?.inviteId);
-    if (!inviteId) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INVITE_ID_REQUIRED' }
-      });
-    }
+    const { inviteId } = payload;
 
     // Buscar dados do convite antes de remover (para notificar o target)
     const inviteData = await this.tournamentInviteManager.getInviteData(inviteId);
@@ -1298,10 +2381,7 @@ export class SocialWebSocketServer {
     const result = await this.tournamentInviteManager.removeInvite(inviteId, ws.oidUser);
 
     if (!result.ok) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: result.reason }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', result.reason);
     }
 
     // Notificar o líder que o convite foi removido
@@ -1312,28 +2392,18 @@ export class SocialWebSocketServer {
 
     // Notificar o target que o convite foi removido (se estiver online)
     if (result.targetOidUser) {
-      const targetClient = this.clients.get(result.targetOidUser);
-      if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-        this.sendMessage(targetClient, {
-          type: 'TOURNAMENT_INVITE_REMOVED',
-          payload: {
-            inviteId,
-            tournamentId: inviteData?.tournamentId,
-            tournamentName: inviteData?.tournamentName
-          }
-        });
-      }
-    }
-  }
-
-  private async handleTournamentInviteList(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.oidUser) {
-      return this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'NOT_AUTHENTICATED' }
+      this.sendToPlayer(result.targetOidUser, {
+        type: 'TOURNAMENT_INVITE_REMOVED',
+        payload: {
+          inviteId,
+          tournamentId: inviteData?.tournamentId,
+          tournamentName: inviteData?.tournamentName
+        }
       });
     }
+  }
 
+  private async handleTournamentInviteList(ws: SessionWebSocket): Promise<HandlerResult | void> {
     try {
       const invites = await this.tournamentInviteManager.getPendingInvites(ws.oidUser);
       this.sendMessage(ws, {
@@ -1342,10 +2412,7 @@ export class SocialWebSocketServer {
       });
     } catch (err) {
       log('error', `Erro ao listar convites de torneio para ${ws.oidUser}:`, err);
-      this.sendMessage(ws, {
-        type: 'TOURNAMENT_INVITE_ERROR',
-        payload: { reason: 'INTERNAL_ERROR' }
-      });
+      return this.fail(ws, 'TOURNAMENT_INVITE_ERROR', 'INTERNAL_ERROR');
     }
   }
 
@@ -1354,11 +2421,18 @@ export class SocialWebSocketServer {
   // =========================
 
   private async getUsername(oidUser: number): Promise<string> {
-    const client = this.clients.get(oidUser);
+    const client = this.getLocalSockets(oidUser)[0];
     if (client?.username && client.username.trim().length > 0) {
       return client.username.trim();
     }
 
+    return (await this.fetchNickname(oidUser)) ?? `Player${oidUser}`;
+  }
+
+  /**
+   * NickName atual em CBT_User (ignora o username em cache nos sockets)
+   */
+  private async fetchNickname(oidUser: number): Promise<string | null> {
     try {
       const row = await prismaGame.$queryRaw<any[]>`
         SELECT TOP 1 NickName FROM CBT_User WHERE oiduser = ${oidUser} AND NickName IS NOT NULL
@@ -1372,13 +2446,12 @@ export class SocialWebSocketServer {
       log('warn', `Erro ao buscar username para oidUser ${oidUser}`, err);
     }
 
-    return `Player${oidUser}`;
+    return null;
   }
 
-  private async resolveTargetUserId(payload: any): Promise<number | null> {
-    const direct = Number(payload?.targetOidUser);
-    if (Number.isFinite(direct) && direct > 0) return direct;
-    const targetLogin = (payload?.targetLogin as string | undefined)?.trim();
+  private async resolveTargetUserId(payload: TargetRefPayload): Promise<number | null> {
+    if (payload.targetOidUser) return payload.targetOidUser;
+    const targetLogin = payload.targetLogin?.trim();
     if (!targetLogin) return null;
     try {
       const rows = await prismaGame.$queryRaw<any[]>`
@@ -1393,12 +2466,12 @@ export class SocialWebSocketServer {
     return null;
   }
 
-  private async resolveTargetUserIdByNickname(payload: any): Promise<number | null> {
+  private async resolveTargetUserIdByNickname(payload: TargetNicknamePayload): Promise<number | null> {
     const targetLogin =
-      (payload?.targetLogin as string | undefined)?.trim() ||
-      (payload?.targetNickname as string | undefined)?.trim() ||
-      (payload?.nickname as string | undefined)?.trim() ||
-      (payload?.nick as string | undefined)?.trim();
+      payload.targetLogin?.trim() ||
+      payload.targetNickname?.trim() ||
+      payload.nickname?.trim() ||
+      payload.nick?.trim();
 
     if (!targetLogin) return null;
 
@@ -1416,29 +2489,16 @@ export class SocialWebSocketServer {
   }
 
   private async clearPartyInvitesForUser(userId: number): Promise<void> {
-    try {
-      for await (const key of this.redis.scanIterator({ MATCH: 'party:invitepair:*', COUNT: 100 })) {
-        const parts = String(key).split(':');
-        const ids = parts.slice(-2).map((p) => Number(p));
-        if (ids.some((id) => id === userId)) {
-          try {
-            await this.redis.del(String(key));
-          } catch (err) {
-            log('warn', `Falha ao remover chave de convite ${key} para usuario ${userId}`, err);
-          }
-        }
-      }
-    } catch (err) {
-      log('warn', `Falha ao varrer convites pendentes para ${userId}`, err);
-    }
+    await this.partyManager.clearInvitesForUser(userId);
   }
 
-  private broadcastPartyUpdate(party: { id: string; members: number[]; leaderId: number }): void {
+  private broadcastPartyUpdate(party: PartyState): void {
+    this.broadcastToParty(party, { type: 'PARTY_UPDATED', payload: { party } });
+  }
+
+  private broadcastToParty(party: { members: number[] }, message: OutboundMessage): void {
     for (const oid of party.members) {
-      const client = this.clients.get(oid);
-      if (client && client.readyState === WebSocket.OPEN) {
-        this.sendMessage(client, { type: 'PARTY_UPDATED', payload: { party } });
-      }
+      this.sendToPlayer(oid, message);
     }
   }
 
@@ -1453,13 +2513,14 @@ export class SocialWebSocketServer {
 
     // Se o lider saiu, disbanda a party
     if (party.leaderId === removedOidUser) {
-      for (const memberId of party.members) {
+      // Notifica os membros que estavam na party no momento da remocao
+      const deleted = await this.partyManager.deleteParty(partyId);
+      for (const memberId of (deleted ?? party).members) {
         this.sendToPlayer(memberId, {
           type: 'PARTY_DISBANDED',
           payload: { partyId, reason: 'leader_left' }
         });
       }
-      await this.partyManager.deleteParty(partyId);
       return;
     }
 
@@ -1467,16 +2528,13 @@ export class SocialWebSocketServer {
     const updatedParty = await this.partyManager.removeMember(partyId, removedOidUser);
 
     // Notifica o removido
-    const removedClient = this.clients.get(removedOidUser);
-    if (removedClient && removedClient.readyState === WebSocket.OPEN) {
-      if (reason === 'kicked') {
-        this.sendMessage(removedClient, {
-          type: 'PARTY_YOU_WERE_KICKED',
-          payload: { partyId, kickerOidUser }
-        });
-      } else {
-        this.sendMessage(removedClient, { type: 'PARTY_LEFT', payload: { partyId } });
-      }
+    if (reason === 'kicked') {
+      this.sendToPlayer(removedOidUser, {
+        type: 'PARTY_YOU_WERE_KICKED',
+        payload: { partyId, kickerOidUser }
+      });
+    } else {
+      this.sendToPlayer(removedOidUser, { type: 'PARTY_LEFT', payload: { partyId } });
     }
 
     // Notifica os membros restantes
@@ -1485,23 +2543,132 @@ export class SocialWebSocketServer {
     }
   }
 
-  private sendToPlayer(oidUser: number, message: WSMessage): void {
-    const client = this.clients.get(oidUser);
-    if (client && client.readyState === WebSocket.OPEN) {
-      this.sendMessage(client, message);
+  /**
+   * Entrega para o jogador onde quer que ele esteja conectado:
+   * sockets locais diretamente e demais instancias via Redis (RoutingManager)
+   */
+  private sendToPlayer(oidUser: number, message: OutboundMessage): void {
+    this.deliverLocal(oidUser, message);
+    this.routingManager.route(oidUser, message).catch((err) => {
+      log('warn', `Falha ao rotear ${message.type} para ${oidUser}`, err);
+    });
+  }
+
+  /**
+   * Entrega ao jogador se ele estiver online em alguma instancia; caso contrario guarda na inbox
+   */
+  private async sendToPlayerOrQueue(oidUser: number, message: OutboundMessage): Promise<void> {
+    if (await this.routingManager.isOnline(oidUser)) {
+      this.sendToPlayer(oidUser, message);
+      return;
     }
+    log('debug', `${oidUser} offline, ${message.type} guardado na inbox`);
+    await this.inboxManager.enqueue(oidUser, message);
+  }
+
+  /**
+   * Variante para eventos de social:events: todas as instancias recebem o mesmo evento,
+   * entao apenas a que reivindicar o evento guarda na inbox.
+   */
+  private async queueBroadcastEventIfOffline(
+    oidUser: number,
+    message: OutboundMessage,
+    event: BroadcastEvent
+  ): Promise<void> {
+    if (await this.routingManager.isOnline(oidUser)) return;
+    if (!(await this.inboxManager.claimEvent(event))) return;
+    await this.inboxManager.enqueue(oidUser, message);
   }
 
-  private sendMessage(ws: WebSocket, message: WSMessage): void {
+  /**
+   * Entrega a todos os sockets (abas) do jogador nesta instancia. Retorna true se entregou.
+   */
+  private deliverLocal(oidUser: number, message: OutboundMessage): boolean {
+    let delivered = false;
+    for (const client of this.getLocalSockets(oidUser)) {
+      if (client.readyState === WebSocket.OPEN) {
+        this.sendMessage(client, message);
+        delivered = true;
+      }
+    }
+    return delivered;
+  }
+
+  private getLocalSockets(oidUser: number): AuthenticatedWebSocket[] {
+    const sockets = this.clients.get(oidUser);
+    return sockets ? Array.from(sockets.values()) : [];
+  }
+
+  private forEachLocalSocket(callback: (client: AuthenticatedWebSocket) => void): void {
+    this.clients.forEach((sockets) => sockets.forEach(callback));
+  }
+
+  private countLocalSockets(): number {
+    let total = 0;
+    this.clients.forEach((sockets) => (total += sockets.size));
+    return total;
+  }
+
+  private addLocalSocket(ws: AuthenticatedWebSocket): void {
+    const oidUser = ws.oidUser as number;
+    let sockets = this.clients.get(oidUser);
+    if (!sockets) {
+      sockets = new Map();
+      this.clients.set(oidUser, sockets);
+    }
+    sockets.set(ws.tabId as string, ws);
+  }
+
+  /**
+   * Remove o socket do Map se ele ainda for o registrado para a aba. Retorna true se removeu.
+   */
+  private removeLocalSocket(ws: AuthenticatedWebSocket): boolean {
+    const oidUser = ws.oidUser as number;
+    const sockets = this.clients.get(oidUser);
+    if (!sockets || sockets.get(ws.tabId as string) !== ws) return false;
+    sockets.delete(ws.tabId as string);
+    if (sockets.size === 0) {
+      this.clients.delete(oidUser);
+    }
+    return true;
+  }
+
+  private sendMessage(ws: WebSocket, message: OutboundMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   }
 
-  private sendError(ws: WebSocket, message: string): void {
+  /**
+   * Envia o erro de dominio (ERROR, FRIEND_ERROR, PARTY_ERROR...) no formato { reason, message }
+   * e devolve o resultado usado no NACK da requisicao
+   */
+  private fail(
+    ws: WebSocket,
+    errorType: ErrorMessageType,
+    reason: string = 'INTERNAL_ERROR',
+    extra?: ErrorPayloadExtra
+  ): HandlerResult {
+    const message = describeError(reason);
+    this.sendMessage(ws, { type: errorType, payload: { ...extra, reason, message } });
+    return { ok: false, reason, message };
+  }
+
+  /**
+   * Responde a requisicao correlacionada (requestId) com ACK ou NACK
+   */
+  private acknowledge(ws: WebSocket, message: InboundMessage, result: HandlerResult | void): void {
+    if (!message.requestId) return;
+    if (result && !result.ok) {
+      this.sendMessage(ws, {
+        type: 'NACK',
+        payload: { requestId: message.requestId, type: message.type, reason: result.reason, message: result.message }
+      });
+      return;
+    }
     this.sendMessage(ws, {
-      type: 'ERROR',
-      payload: { message }
+      type: 'ACK',
+      payload: { requestId: message.requestId, type: message.type, data: result?.data }
     });
   }
 }
@@ -1523,6 +2690,12 @@ async function main() {
     const server = new SocialWebSocketServer();
     server.listen(PORT);
 
+    process.once('SIGTERM', () => {
+      log('info', 'SIGTERM recebido, encerrando servidor');
+      server.close();
+      process.exit(0);
+    });
+
     log('info', `Social WebSocket Server iniciado na porta ${PORT}`);
   } catch (error) {
     log('error', 'Falha ao iniciar servidor:', error);
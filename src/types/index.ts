@@ -13,19 +13,87 @@ export interface WebSocketMessage {
  */
 export type FriendStatus = 'PENDING' | 'ACCEPTED' | 'REMOVED' | 'BLOCKED';
 
+/**
+ * Status rico de presenca
+ */
+export type PresenceStatus = 'ONLINE' | 'IN_LOBBY' | 'IN_MATCH' | 'IN_QUEUE' | 'AWAY' | 'OFFLINE';
+
 /**
  * Status de convite de quarteto
  */
 export type QuartetInviteStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'REMOVED';
 
 /**
- * Estado de uma party (dupla temporaria)
+ * Modo de uma party
+ */
+export type PartyMode = 'DUO' | 'QUARTET' | 'FIVE_STACK';
+
+/**
+ * Estado de uma party (grupo temporario; dupla por padrao)
  */
 export interface PartyState {
   id: string;
   leaderId: number;
   members: number[];
   createdAt: number;
+  mode: PartyMode;
+  maxSize: number;
+}
+
+/**
+ * Mensagem do chat de party
+ */
+export interface PartyChatMessage {
+  id: string;
+  partyId: string;
+  senderId: number;
+  senderName: string;
+  text: string;
+  createdAt: number;
+}
+
+/**
+ * Convite pendente para uma party
+ */
+export interface PartyInvite {
+  partyId: string;
+  inviterId: number;
+  inviterName: string;
+  targetId: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Resultado da busca de jogadores (USER_SEARCH)
+ */
+export interface UserSearchResult {
+  oidUser: number;
+  nickname: string;
+  clanId: number | null;
+  online: boolean;
+}
+
+/**
+ * Sugestao de amizade (FRIEND_SUGGESTIONS) e os sinais que a justificam
+ */
+export interface FriendSuggestion {
+  oidUser: number;
+  username: string | null;
+  score: number;
+  mutualFriends: number;
+  sharedQuartets: number;
+  sharedMatches: number;
+  sameClan: boolean;
+}
+
+/**
+ * Jogador bloqueado (FRIEND_BLOCK_LIST)
+ */
+export interface BlockedUserView {
+  oidUser: number;
+  username: string | null;
+  blockedAt: Date;
 }
 
 /**
@@ -36,6 +104,39 @@ export interface FriendView {
   username: string | null;
   status: FriendStatus;
   isRequester: boolean;
+  online?: boolean;
+  lastSeen?: number | null;
+  presence?: PresenceStatus;
+  createdAt?: Date;
+  friendCount?: number;
+  mutualCount?: number;
+  favorite?: boolean;
+  groupId?: number | null;
+  muted?: FriendNotificationKind[];
+}
+
+/**
+ * Notificacoes que podem ser silenciadas por amigo
+ */
+export type FriendNotificationKind = 'PARTY_INVITE' | 'QUARTET_INVITE' | 'PRESENCE' | 'DM';
+
+/**
+ * Grupo nomeado da lista de amigos
+ */
+export interface FriendGroupView {
+  id: number;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Amigo em comum entre dois jogadores (FRIEND_MUTUALS)
+ */
+export interface MutualFriendView {
+  oidUser: number;
+  username: string | null;
+  online: boolean;
+  presence: PresenceStatus;
 }
 
 /**
@@ -49,3 +150,45 @@ export interface QuartetInviteView {
   targetPos: number;
   isCaptain?: boolean;
 }
+
+/**
+ * Mensagem direta entre amigos
+ */
+export interface DirectMessageView {
+  id: number;
+  senderId: number;
+  recipientId: number;
+  text: string;
+  createdAt: Date | string;
+  readAt: Date | string | null;
+}
+
+/**
+ * Evento guardado na inbox offline (reenviado no INBOX_REPLAY)
+ */
+export interface InboxEntry {
+  id: string;
+  type: string;
+  payload: any;
+  createdAt: number;
+}
+
+/**
+ * Visao de um convite de torneio
+ */
+export interface TournamentInviteView {
+  inviteId: number;
+  inscricaoId: number;
+  tournamentId: number;
+  tournamentName: string;
+  leaderOidUser: number;
+  leaderNickname: string;
+  oidUser: number;
+  nickname: string;
+  status: 'Pendente' | 'Aceito' | 'Recusado';
+  position: number;
+  dataConvite: Date | string;
+  dataResposta: Date | string | null;
+}
+
+export * from './protocol';
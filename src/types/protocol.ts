@@ -0,0 +1,375 @@
+/**
+ * Catalogo de mensagens do protocolo WebSocket social
+ *
+ * Toda mensagem trafega como { type, payload }. As unioes abaixo sao discriminadas por
+ * `type` e podem ser importadas pelo frontend (Next.js) para tipar envio e recebimento.
+ * Datas (Date no servidor) chegam ao cliente como string ISO.
+ *
+ * Mensagens do cliente podem levar um `requestId`; o servidor responde com ACK ou NACK
+ * contendo o mesmo `requestId` (alem das respostas de dominio, como FRIEND_ERROR).
+ */
+import type {
+  BlockedUserView,
+  DirectMessageView,
+  FriendSuggestion,
+  FriendView,
+  FriendGroupView,
+  FriendNotificationKind,
+  MutualFriendView,
+  InboxEntry,
+  PartyChatMessage,
+  PartyInvite,
+  PartyMode,
+  PartyState,
+  PresenceStatus,
+  QuartetInviteView,
+  TournamentInviteView,
+  UserSearchResult
+} from './index';
+
+/**
+ * Payload vazio (mensagens sem parametros)
+ */
+export type EmptyPayload = Record<string, never>;
+
+/**
+ * Status que o cliente pode definir via PRESENCE_SET
+ */
+export type SettablePresenceStatus = Exclude<PresenceStatus, 'OFFLINE'>;
+
+// =========================
+// CONSTANTES COMPARTILHADAS
+// =========================
+// Usadas pelo validador de mensagens e pelos managers; ficam aqui (sem dependencias de
+// Redis/Prisma) para que o frontend possa importar o mesmo validador.
+
+/**
+ * Status que o proprio cliente (ou a API) pode definir
+ */
+export const SETTABLE_PRESENCE_STATUSES: PresenceStatus[] = ['ONLINE', 'IN_LOBBY', 'IN_MATCH', 'IN_QUEUE', 'AWAY'];
+
+/**
+ * Tamanho maximo de cada modo de party
+ */
+export const PARTY_MODE_SIZES: Record<PartyMode, number> = {
+  DUO: 2,
+  QUARTET: 4,
+  FIVE_STACK: 5
+};
+
+/**
+ * Tamanho aceito para o termo de USER_SEARCH
+ */
+export const USER_SEARCH_MIN_LENGTH = 2;
+export const USER_SEARCH_MAX_LENGTH = 32;
+
+/**
+ * Notificacoes que podem ser silenciadas por amigo
+ */
+export const FRIEND_NOTIFICATION_KINDS = ['PARTY_INVITE', 'QUARTET_INVITE', 'PRESENCE', 'DM'] as const;
+
+export const FRIEND_GROUP_NAME_MAX_LENGTH = 32;
+
+/**
+ * Alvo informado por oidUser ou NickName
+ */
+export interface TargetRefPayload {
+  targetOidUser?: number;
+  targetLogin?: string;
+}
+
+/**
+ * Alvo informado por NickName (aceita os aliases usados pelos clientes)
+ */
+export interface TargetNicknamePayload {
+  targetLogin?: string;
+  targetNickname?: string;
+  nickname?: string;
+  nick?: string;
+}
+
+// =========================
+// CLIENTE -> SERVIDOR
+// =========================
+
+export interface InboundPayloads {
+  AUTH: { oidUser: number; token: string; username?: string; tabId?: string; multiSession?: boolean };
+  TOKEN_REFRESH: { token: string };
+  INBOX_ACK: { ids: string[] };
+  HEARTBEAT: EmptyPayload;
+
+  PRESENCE_SET: { status: SettablePresenceStatus };
+
+  USER_SEARCH: { query: string; limit?: number };
+
+  FRIEND_SEND: TargetNicknamePayload;
+  FRIEND_ACCEPT: { requesterOidUser: number };
+  FRIEND_REJECT: { requesterOidUser: number };
+  FRIEND_CANCEL: TargetRefPayload;
+  FRIEND_REMOVE: TargetRefPayload;
+  FRIEND_LIST: EmptyPayload;
+  FRIEND_PENDING: EmptyPayload;
+  FRIEND_SUGGESTIONS: { offset?: number; limit?: number };
+  FRIEND_MUTUALS: TargetRefPayload;
+  FRIEND_GROUP_CREATE: { name: string };
+  FRIEND_GROUP_RENAME: { groupId: number; name: string };
+  FRIEND_GROUP_DELETE: { groupId: number };
+  FRIEND_SET_GROUP: TargetRefPayload & { groupId?: number };
+  FRIEND_SET_FAVORITE: TargetRefPayload & { favorite: boolean };
+  FRIEND_SET_MUTED: TargetRefPayload & { muted: FriendNotificationKind[] };
+  FRIEND_BLOCK: TargetRefPayload;
+  FRIEND_UNBLOCK: TargetRefPayload;
+  FRIEND_BLOCK_LIST: EmptyPayload;
+
+  DM_SEND: { targetOidUser: number; text: string; clientMessageId?: string };
+  DM_HISTORY: { targetOidUser: number; beforeId?: number; limit?: number };
+  DM_READ: { targetOidUser: number; upToId?: number };
+  DM_TYPING: { targetOidUser: number; typing?: boolean };
+
+  QUARTET_INVITE_SEND: TargetNicknamePayload & { targetPos: 1 | 2 | 3 };
+  QUARTET_INVITE_ACCEPT: { requesterOidUser: number };
+  QUARTET_INVITE_REJECT: { requesterOidUser: number };
+  QUARTET_INVITE_REMOVE: TargetRefPayload;
+  QUARTET_LIST_ACCEPTED: EmptyPayload;
+  QUARTET_LIST_PENDING: EmptyPayload;
+
+  PARTY_CREATE: { mode?: PartyMode; maxSize?: number };
+  PARTY_INVITE: { targetOidUser: number };
+  PARTY_ACCEPT_INVITE: { partyId: string };
+  PARTY_DECLINE_INVITE: { inviterOidUser: number };
+  PARTY_INVITE_LIST: EmptyPayload;
+  PARTY_LEAVE: EmptyPayload;
+  PARTY_KICK: { targetOidUser: number };
+  PARTY_TRANSFER_LEAD: { targetOidUser: number };
+  PARTY_CHAT_SEND: { text: string };
+
+  TOURNAMENT_INVITE_SEND: { tournamentId: number; targetNickname: string; position: number };
+  TOURNAMENT_INVITE_ACCEPT: { inviteId: number };
+  TOURNAMENT_INVITE_REJECT: { inviteId: number };
+  TOURNAMENT_INVITE_REMOVE: { inviteId: number };
+  TOURNAMENT_INVITE_LIST: EmptyPayload;
+
+  PAYMENT_WATCH: { transactionId: string };
+}
+
+export type InboundMessageType = keyof InboundPayloads;
+
+export type InboundPayload<T extends InboundMessageType> = InboundPayloads[T];
+
+export type InboundMessage = {
+  [K in InboundMessageType]: { type: K; payload: InboundPayloads[K]; requestId?: string };
+}[InboundMessageType];
+
+// =========================
+// SERVIDOR -> CLIENTE
+// =========================
+
+/**
+ * Formato comum das respostas de erro (ERROR e *_ERROR): codigo estavel + texto de apoio
+ */
+export interface ErrorPayload {
+  reason: string;
+  message: string;
+  // Fim da punicao (epoch ms, null = permanente) quando reason = MUTED
+  until?: number | null;
+}
+
+export type ValidationErrorReason = 'INVALID_JSON' | 'UNKNOWN_TYPE' | 'INVALID_PAYLOAD';
+
+export interface ValidationErrorPayload {
+  type?: string;
+  requestId?: string;
+  reason: ValidationErrorReason;
+  field?: string;
+  message: string;
+}
+
+/**
+ * Mensagem descartada pelo rate limit; o cliente pode reenviar apos retryAfterMs
+ */
+export interface RateLimitedPayload {
+  type: InboundMessageType;
+  reason: 'RATE_LIMITED';
+  message: string;
+  retryAfterMs: number;
+}
+
+export interface PartyInvitePayload {
+  partyId: string;
+  inviterOidUser: number;
+  inviterName: string;
+  expiresAt: number;
+}
+
+export interface TournamentInviteResponsePayload {
+  inviteId: number;
+  position: number;
+  playerNickname: string;
+  playerOidUser: number;
+}
+
+/**
+ * Confirmacao de uma mensagem enviada com requestId
+ */
+export interface AckPayload {
+  requestId: string;
+  type: InboundMessageType;
+  data?: unknown;
+}
+
+/**
+ * Recusa de uma mensagem enviada com requestId. `reason` e um codigo estavel (ex.: NOT_FRIENDS).
+ */
+export interface NackPayload {
+  requestId: string;
+  type?: string;
+  reason: string;
+  message: string;
+}
+
+/**
+ * Evento repassado da API (social:events) sem transformacao
+ */
+export type ExternalEventPayload = Record<string, any>;
+
+export interface OutboundPayloads {
+  AUTH_REQUIRED: { message: string };
+  AUTH_SUCCESS: { oidUser: number; username?: string; expiresAt?: number };
+  AUTH_FAILED: { reason?: string; message: string; until?: number | null };
+  SESSION_REPLACED: { reason: string; message: string };
+  SESSION_REVOKED: { reason: string; message: string };
+  TOKEN_REFRESHED: { expiresAt?: number };
+  TOKEN_EXPIRING: { expiresAt: number };
+  PONG: undefined;
+  ERROR: ErrorPayload;
+  VALIDATION_ERROR: ValidationErrorPayload;
+  ACK: AckPayload;
+  NACK: NackPayload;
+  RATE_LIMITED: RateLimitedPayload;
+
+  INBOX_REPLAY: { events: InboxEntry[] };
+  INBOX_ACKED: { ids: string[]; removed: number };
+
+  PRESENCE_UPDATED: { status: PresenceStatus };
+  FRIEND_PRESENCE: { oidUser: number; online: boolean; status: PresenceStatus; lastSeen: number | null };
+
+  USER_SEARCH_RESULTS: { query: string; results: UserSearchResult[] };
+  USER_PROFILE_UPDATED: { oidUser: number; username: string };
+
+  FRIEND_ERROR: ErrorPayload;
+  FRIEND_REQUEST_SENT: { targetOidUser: number };
+  FRIEND_REQUEST: { requesterOidUser: number; requesterName: string };
+  FRIEND_ACCEPTED: { oidUser: number; username: string };
+  FRIEND_REJECTED: { requesterOidUser: number };
+  FRIEND_REMOVED: { oidUser: number };
+  FRIEND_LIST: { friends: FriendView[]; groups: FriendGroupView[] };
+  FRIEND_GROUPS: { groups: FriendGroupView[] };
+  FRIEND_PREFERENCES_UPDATED: {
+    oidUser: number;
+    favorite: boolean;
+    groupId: number | null;
+    muted: FriendNotificationKind[];
+  };
+  FRIEND_PENDING: {
+    incoming: FriendView[];
+    outgoing: FriendView[];
+    /** @deprecated Lista unica (incoming + outgoing) mantida por uma versao para clientes antigos */
+    pending: FriendView[];
+  };
+  FRIEND_REQUEST_CANCELLED: { requesterOidUser: number; targetOidUser: number };
+  FRIEND_REQUEST_EXPIRED: { requesterOidUser: number; targetOidUser: number };
+  FRIEND_SUGGESTIONS: { suggestions: FriendSuggestion[]; offset: number; total: number; hasMore: boolean };
+  FRIEND_MUTUALS: { oidUser: number; mutuals: MutualFriendView[] };
+  FRIEND_BLOCKED: { oidUser: number };
+  FRIEND_UNBLOCKED: { oidUser: number };
+  FRIEND_BLOCK_LIST: { blocked: BlockedUserView[] };
+
+  DM_ERROR: ErrorPayload & { clientMessageId?: string };
+  DM_SENT: { message: DirectMessageView; clientMessageId?: string };
+  DM_RECEIVED: { message: DirectMessageView; senderName: string; muted?: boolean };
+  DM_HISTORY: { targetOidUser: number; messages: DirectMessageView[]; hasMore: boolean };
+  DM_READ: { targetOidUser: number; upToId?: number; updated: number };
+  DM_READ_RECEIPT: { readerOidUser: number; upToId?: number };
+  DM_TYPING: { oidUser: number; typing: boolean };
+  DM_UNREAD: { counts: { oidUser: number; count: number }[]; total: number };
+
+  QUARTET_ERROR: ErrorPayload;
+  QUARTET_INVITE_SENT: { targetOidUser: number; targetPos: number };
+  QUARTET_INVITE_REQUEST: { requesterOidUser: number; requesterName: string; targetPos: number };
+  QUARTET_INVITE_ACCEPTED: { oidUser: number; username: string };
+  QUARTET_INVITE_REJECTED: { requesterOidUser: number };
+  QUARTET_INVITE_REMOVED: { oidUser: number };
+  QUARTET_LIST_ACCEPTED: { accepted: QuartetInviteView[] };
+  QUARTET_LIST_PENDING: { pending: QuartetInviteView[] };
+
+  PARTY_ERROR: ErrorPayload;
+  PARTY_UPDATED: { party: PartyState };
+  PARTY_INVITE: PartyInvitePayload;
+  PARTY_INVITE_SENT: { targetOidUser: number; expiresAt: number };
+  PARTY_INVITE_DECLINED: { targetOidUser: number };
+  PARTY_INVITE_EXPIRED: { partyId: string; inviterOidUser: number; targetOidUser: number };
+  PARTY_INVITE_LIST: { incoming: PartyInvite[]; outgoing: PartyInvite[] };
+  PARTY_LEFT: { partyId: string };
+  PARTY_KICKED: { oidUser: number };
+  PARTY_YOU_WERE_KICKED: { partyId: string; kickerOidUser?: number };
+  PARTY_DISBANDED: { partyId: string; reason: string };
+  PARTY_CHAT_MESSAGE: { message: PartyChatMessage };
+  PARTY_CHAT_HISTORY: { partyId: string; messages: PartyChatMessage[] };
+
+  TOURNAMENT_INVITE_ERROR: ErrorPayload;
+  TOURNAMENT_INVITE_SENT: { inviteId?: number; inscricaoId?: number; targetNickname: string; position: number };
+  TOURNAMENT_INVITE_RECEIVED: ExternalEventPayload & {
+    inviteId: number;
+    tournamentId: number;
+    tournamentName: string;
+    leaderOidUser: number;
+    leaderNickname: string;
+    position: number;
+  };
+  TOURNAMENT_INVITE_RESPONSE_SENT: { inviteId: number; accepted: boolean };
+  TOURNAMENT_INVITE_ACCEPTED: TournamentInviteResponsePayload;
+  TOURNAMENT_INVITE_REJECTED: TournamentInviteResponsePayload;
+  TOURNAMENT_INVITE_REMOVE_SUCCESS: { inviteId: number; position?: number };
+  TOURNAMENT_INVITE_REMOVED: ExternalEventPayload & { inviteId: number; tournamentId?: number; tournamentName?: string };
+  TOURNAMENT_INVITE_LIST: { invites: TournamentInviteView[] };
+  TOURNAMENT_DRAW_UPDATE: ExternalEventPayload;
+
+  NOTIFICATION_RECEIVED: ExternalEventPayload;
+  MATCH_CHAT_UPDATE: ExternalEventPayload;
+  MATCH_CHAT_MESSAGE_RECEIVED: ExternalEventPayload;
+  MATCH_STATUS_UPDATE: ExternalEventPayload;
+  MATCH_EXCEPTION_UPDATE: ExternalEventPayload;
+  MATCH_VETO_UPDATE: ExternalEventPayload;
+
+  PAYMENT_CONFIRMED: { transactionId: string; amount?: number; status: 'PAID' };
+}
+
+export type OutboundMessageType = keyof OutboundPayloads;
+
+export type OutboundPayload<T extends OutboundMessageType> = OutboundPayloads[T];
+
+/**
+ * Mensagens de erro de dominio (ERROR, FRIEND_ERROR...): payload ErrorPayload, com campos extras opcionais
+ */
+export type ErrorMessageType = {
+  [K in OutboundMessageType]: K extends 'ERROR' | `${string}_ERROR`
+    ? OutboundPayloads[K] extends ErrorPayload
+      ? ErrorPayload extends OutboundPayloads[K]
+        ? K
+        : never
+      : never
+    : never;
+}[OutboundMessageType];
+
+/**
+ * Campos extras aceitos pelos erros de dominio (alem de reason/message)
+ */
+export type ErrorPayloadExtra = {
+  [K in ErrorMessageType]: Partial<Omit<OutboundPayloads[K], 'reason' | 'message'>>;
+}[ErrorMessageType];
+
+export type OutboundMessage = {
+  [K in OutboundMessageType]: undefined extends OutboundPayloads[K]
+    ? { type: K; payload?: OutboundPayloads[K] }
+    : { type: K; payload: OutboundPayloads[K] };
+}[OutboundMessageType];